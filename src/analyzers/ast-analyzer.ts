@@ -7,19 +7,69 @@ import * as parser from "@babel/parser";
 import traverse from "@babel/traverse";
 import * as t from "@babel/types";
 import { readFileSync } from "fs";
-import { AnalysisError, SymbolInfo, FunctionSignature } from "../types/index.js";
-import type { NodePath } from "@babel/traverse";
+import {
+  AnalysisError,
+  SymbolInfo,
+  SymbolScope,
+  FunctionSignature,
+  ParameterInfo,
+  JSDocInfo,
+  ScopeBinding,
+} from "../types/index.js";
+import { formatParameter } from "../utils/signatures.js";
+import { getLeadingJSDoc } from "./jsdoc-parser.js";
+import type { FileOverlay } from "./file-overlay.js";
+import type { Binding, NodePath, Scope } from "@babel/traverse";
+
+/**
+ * Keyword types and how they are written
+ */
+const TS_KEYWORD_TYPES: Record<string, string> = {
+  TSAnyKeyword: "any",
+  TSBigIntKeyword: "bigint",
+  TSBooleanKeyword: "boolean",
+  TSIntrinsicKeyword: "intrinsic",
+  TSNeverKeyword: "never",
+  TSNullKeyword: "null",
+  TSNumberKeyword: "number",
+  TSObjectKeyword: "object",
+  TSStringKeyword: "string",
+  TSSymbolKeyword: "symbol",
+  TSUndefinedKeyword: "undefined",
+  TSUnknownKeyword: "unknown",
+  TSVoidKeyword: "void",
+};
+
+/**
+ * Types that need parentheses inside unions, intersections and array types
+ */
+const LOOSE_TYPES = new Set([
+  "TSUnionType",
+  "TSIntersectionType",
+  "TSFunctionType",
+  "TSConstructorType",
+  "TSConditionalType",
+]);
 
 export class ASTAnalyzer {
-  private cache: Map<string, t.File> = new Map();
+  private cache: Map<string, { code: string; ast: t.File }> = new Map();
+  private overlay?: FileOverlay;
+
+  /**
+   * With an overlay, overlaid files are parsed from their proposed content instead of disk
+   */
+  constructor(options?: { overlay?: FileOverlay }) {
+    this.overlay = options?.overlay;
+  }
 
   /**
    * Parse code and return AST
    */
   parse(code: string, filePath: string): t.File {
-    // Check cache first
-    if (this.cache.has(filePath)) {
-      return this.cache.get(filePath)!;
+    // Check cache first; a cached AST is only valid for the exact same source
+    const cached = this.cache.get(filePath);
+    if (cached && cached.code === code) {
+      return cached.ast;
     }
 
     try {
@@ -29,7 +79,7 @@ export class ASTAnalyzer {
       });
 
       // Cache the AST
-      this.cache.set(filePath, ast);
+      this.cache.set(filePath, { code, ast });
       return ast;
     } catch (error) {
       throw new AnalysisError(
@@ -40,11 +90,11 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Parse file from disk
+   * Parse file from disk (or from the overlay)
    */
   parseFile(filePath: string): t.File {
     try {
-      const code = readFileSync(filePath, "utf-8");
+      const code = this.overlay?.read(filePath) ?? readFileSync(filePath, "utf-8");
       return this.parse(code, filePath);
     } catch (error) {
       if (error instanceof AnalysisError) {
@@ -58,140 +108,48 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Extract all symbols (functions, classes, variables) from AST
+   * Traverse an AST with a Babel visitor
+   */
+  traverse(ast: t.File, visitors: Record<string, unknown>): void {
+    // @ts-ignore - traverse default type issue
+    traverse.default(ast, visitors);
+  }
+
+  /**
+   * Extract declared symbols from AST using Babel's scope bindings.
+   * Module-level declarations, members and function-local declarations are
+   * told apart by `scope`; locals in nested blocks (loop counters etc.) are skipped.
    */
   extractSymbols(ast: t.File, filePath: string): SymbolInfo[] {
     const symbols: SymbolInfo[] = [];
+    // Babel calls visitors with its own `this`
+    const analyzer = this;
 
     const visitors = {
-      // Function declarations
-      FunctionDeclaration(path: NodePath<t.FunctionDeclaration>) {
-        if (path.node.id) {
-          symbols.push({
-            name: path.node.id.name,
-            type: "function",
-            filePath,
-            line: path.node.loc?.start.line,
-            column: path.node.loc?.start.column,
-            signature: this.generateFunctionSignature(path.node),
-            exported: false, // Will be updated by export checker
-          });
-        }
-      },
-
-      // Variable declarations
-      VariableDeclaration(path: NodePath<t.VariableDeclaration>) {
-        path.node.declarations.forEach((declaration) => {
-          if (t.isIdentifier(declaration.id)) {
-            symbols.push({
-              name: declaration.id.name,
-              type: "variable",
-              filePath,
-              line: declaration.loc?.start.line,
-              column: declaration.loc?.start.column,
-              exported: false,
-            });
-          }
-        });
-      },
+      Program(path: NodePath<t.Program>) {
+        analyzer.collectBindings(path, "module", undefined, filePath, symbols);
+        analyzer.collectTypeDeclarations(path.node.body, "module", undefined, filePath, symbols);
 
-      // Class declarations
-      ClassDeclaration(path: NodePath<t.ClassDeclaration>) {
-        if (path.node.id) {
-          symbols.push({
-            name: path.node.id.name,
-            type: "class",
-            filePath,
-            line: path.node.loc?.start.line,
-            column: path.node.loc?.start.column,
-            exported: false,
-          });
-        }
-
-        // Extract class methods
-        path.node.body.body.forEach((member) => {
-          if (
-            t.isClassMethod(member) &&
-            t.isIdentifier(member.key) &&
-            !member.computed
-          ) {
-            symbols.push({
-              name: member.key.name,
-              type: "function",
-              filePath,
-              line: member.loc?.start.line,
-              column: member.loc?.start.column,
-              signature: this.generateMethodSignature(member),
-              exported: false,
-            });
+        const exportedNames = analyzer.collectExportedNames(path.node);
+        for (const symbol of symbols) {
+          if (symbol.scope === "module" && exportedNames.has(symbol.name)) {
+            symbol.exported = true;
           }
-        });
-      },
-
-      // TypeScript type declarations
-      TSInterfaceDeclaration(path: NodePath<t.TSInterfaceDeclaration>) {
-        if (path.node.id) {
-          symbols.push({
-            name: path.node.id.name,
-            type: "interface",
-            filePath,
-            line: path.node.loc?.start.line,
-            column: path.node.loc?.start.column,
-            exported: false,
-          });
-        }
-      },
-
-      TSTypeAliasDeclaration(path: NodePath<t.TSTypeAliasDeclaration>) {
-        if (path.node.id) {
-          symbols.push({
-            name: path.node.id.name,
-            type: "type",
-            filePath,
-            line: path.node.loc?.start.line,
-            column: path.node.loc?.start.column,
-            exported: false,
-          });
         }
       },
 
-      // Export named declarations
-      ExportNamedDeclaration(path: NodePath<t.ExportNamedDeclaration>) {
-        if (path.node.declaration) {
-          if (t.isFunctionDeclaration(path.node.declaration) && path.node.declaration.id) {
-            const symbol = symbols.find(s => s.name === path.node.declaration!.id!.name);
-            if (symbol) symbol.exported = true;
-          } else if (t.isClassDeclaration(path.node.declaration) && path.node.declaration.id) {
-            const symbol = symbols.find(s => s.name === path.node.declaration!.id!.name);
-            if (symbol) symbol.exported = true;
-          } else if (t.isVariableDeclaration(path.node.declaration)) {
-            path.node.declaration.declarations.forEach((declaration) => {
-              if (t.isIdentifier(declaration.id)) {
-                const symbol = symbols.find(s => s.name === declaration.id.name);
-                if (symbol) symbol.exported = true;
-              }
-            });
-          }
-        }
+      // Namespace bodies; their declarations are members of the namespace
+      TSModuleBlock(path: NodePath<t.TSModuleBlock>) {
+        const namespace = analyzer.getNamespaceName(path);
+        if (!namespace) return;
 
-        // Handle export { symbol } statements
-        path.node.specifiers.forEach((specifier) => {
-          if (t.isExportSpecifier(specifier)) {
-            const symbol = symbols.find(s => s.name === specifier.local.name);
-            if (symbol) symbol.exported = true;
-          }
-        });
+        analyzer.collectBindings(path, "class", namespace, filePath, symbols);
+        analyzer.collectTypeDeclarations(path.node.body, "class", namespace, filePath, symbols);
       },
 
-      // Export default declarations
-      ExportDefaultDeclaration(path: NodePath<t.ExportDefaultDeclaration>) {
-        if (t.isFunctionDeclaration(path.node.declaration) && path.node.declaration.id) {
-          const symbol = symbols.find(s => s.name === path.node.declaration!.id!.name);
-          if (symbol) symbol.exported = true;
-        } else if (t.isClassDeclaration(path.node.declaration) && path.node.declaration.id) {
-          const symbol = symbols.find(s => s.name === path.node.declaration!.id!.name);
-          if (symbol) symbol.exported = true;
-        }
+      Function(path: NodePath<t.Function>) {
+        const parent = analyzer.getQualifiedName(path);
+        analyzer.collectBindings(path, "function", parent, filePath, symbols);
       },
     };
 
@@ -202,45 +160,63 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Extract function signatures from AST
+   * Extract function signatures from AST.
+   * Overloaded functions contribute their overload signatures, not the implementation's.
    */
   extractFunctionSignatures(ast: t.File, filePath: string): FunctionSignature[] {
     const signatures: FunctionSignature[] = [];
+    // Babel calls visitors with its own `this`
+    const analyzer = this;
 
     const visitors = {
       FunctionDeclaration(path: NodePath<t.FunctionDeclaration>) {
+        if (path.node.id && !analyzer.isOverloadImplementation(path)) {
+          signatures.push(analyzer.buildSignature(path.node.id.name, path.node, filePath, analyzer.getPathJSDoc(path)));
+        }
+      },
+
+      // Overload signatures and `declare function`
+      TSDeclareFunction(path: NodePath<t.TSDeclareFunction>) {
         if (path.node.id) {
-          signatures.push({
-            name: path.node.id.name,
-            parameters: path.node.params.map((param) => ({
-              name: t.isIdentifier(param) ? param.name : "unknown",
-              type: this.extractTypeAnnotation(param),
-              optional: t.isIdentifier(param) && param.optional ? true : false,
-            })),
-            returnType: this.extractReturnType(path.node),
-            filePath,
-            line: path.node.loc?.start.line,
-            isAsync: path.node.async,
-            isGenerator: path.node.generator,
-          });
+          signatures.push(analyzer.buildSignature(path.node.id.name, path.node, filePath, analyzer.getPathJSDoc(path)));
+        }
+      },
+
+      // `const doThing = async (x: Foo) => ...`
+      VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+        const init = analyzer.unwrapExpression(path.node.init);
+        if (t.isIdentifier(path.node.id) && (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))) {
+          signatures.push(analyzer.buildSignature(path.node.id.name, init, filePath, analyzer.getPathJSDoc(path)));
         }
       },
 
       ClassMethod(path: NodePath<t.ClassMethod>) {
-        if (t.isIdentifier(path.node.key)) {
-          signatures.push({
-            name: path.node.key.name,
-            parameters: path.node.params.map((param) => ({
-              name: t.isIdentifier(param) ? param.name : "unknown",
-              type: this.extractTypeAnnotation(param),
-              optional: t.isIdentifier(param) && param.optional ? true : false,
-            })),
-            returnType: this.extractReturnType(path.node),
-            filePath,
-            line: path.node.loc?.start.line,
-            isAsync: path.node.async,
-            isGenerator: path.node.generator,
-          });
+        const name = analyzer.getMemberName(path.node);
+        if (name && path.node.kind !== "get" && path.node.kind !== "set" && !analyzer.isOverloadImplementation(path)) {
+          signatures.push(analyzer.buildMemberSignature(name, path, path.node, filePath));
+        }
+      },
+
+      ClassPrivateMethod(path: NodePath<t.ClassPrivateMethod>) {
+        if (path.node.kind === "method") {
+          signatures.push(analyzer.buildMemberSignature(analyzer.getMemberName(path.node)!, path, path.node, filePath));
+        }
+      },
+
+      // Abstract methods, and method and constructor overload signatures
+      TSDeclareMethod(path: NodePath<t.TSDeclareMethod>) {
+        const name = analyzer.getMemberName(path.node);
+        if (name && (path.node.kind === "method" || path.node.kind === "constructor")) {
+          signatures.push(analyzer.buildMemberSignature(name, path, path.node, filePath));
+        }
+      },
+
+      // `handle = (event: Event) => ...` class fields
+      ClassProperty(path: NodePath<t.ClassProperty>) {
+        const name = analyzer.getMemberName(path.node);
+        const value = analyzer.unwrapExpression(path.node.value);
+        if (name && (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value))) {
+          signatures.push(analyzer.buildMemberSignature(name, path, value, filePath));
         }
       },
     };
@@ -287,24 +263,735 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Generate a human-readable function signature
+   * Names the code declares: bindings in every scope (parameters and imports included),
+   * and the methods of its classes and object literals
+   */
+  getDeclaredNames(ast: t.File): Set<string> {
+    const names = new Set<string>();
+
+    this.traverse(ast, {
+      Scopable(path: NodePath<t.Scopable>) {
+        for (const name of Object.keys(path.scope.bindings)) {
+          names.add(name);
+        }
+      },
+      "ClassMethod|ObjectMethod|TSDeclareMethod"(path: NodePath<t.ClassMethod | t.ObjectMethod | t.TSDeclareMethod>) {
+        if (t.isIdentifier(path.node.key)) {
+          names.add(path.node.key.name);
+        }
+      },
+    });
+
+    return names;
+  }
+
+  /**
+   * Bindings in scope for code inserted before `line` (at the end of the file when
+   * omitted), from the innermost function or block around that line outwards
    */
-  private generateFunctionSignature(node: t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression): string {
-    const name = t.isIdentifier(node.id) ? node.id.name : "anonymous";
-    const params = node.params
-      .map((param) => {
-        if (t.isIdentifier(param)) {
-          return param.optional ? `${param.name}?` : param.name;
+  getBindingsAt(ast: t.File, line?: number): ScopeBinding[] {
+    let scope: Scope | undefined;
+
+    this.traverse(ast, {
+      Scopable(path: NodePath<t.Scopable>) {
+        const loc = path.node.loc;
+        if (path.isProgram() || (line !== undefined && loc && loc.start.line < line && loc.end.line >= line)) {
+          scope = path.scope;
+        } else {
+          // Nothing inside a scope that doesn't span the line can enclose it
+          path.skip();
         }
-        return "(...)";
-      })
-      .join(", ");
+      },
+    });
 
-    let signature = `${name}(${params})`;
+    if (!scope) return [];
+    const own = scope.bindings;
+    return Object.entries(scope.getAllBindings() as Record<string, Binding>).map(([name, binding]) => ({
+      name,
+      kind: binding.kind,
+      type: this.extractTypeAnnotation(binding.identifier),
+      line: binding.identifier.loc?.start.line,
+      own: own[name] === binding,
+    }));
+  }
 
-    if (node.async) {
-      signature = `async ${signature}`;
+  /**
+   * Record the declarations bound directly in a scope (parameters excluded)
+   */
+  private collectBindings(
+    path: NodePath,
+    scope: SymbolScope,
+    parent: string | undefined,
+    filePath: string,
+    symbols: SymbolInfo[]
+  ): void {
+    for (const [name, binding] of Object.entries(path.scope.bindings)) {
+      if (!binding || binding.kind === "param" || binding.kind === "module") continue;
+
+      const node = binding.path.node;
+      const base = {
+        name,
+        filePath,
+        line: node.loc?.start.line,
+        column: node.loc?.start.column,
+        exported: false,
+        scope,
+        parent,
+        jsdoc: this.getPathJSDoc(binding.path),
+      };
+      // Members of namespace declarations are qualified by the namespace
+      const ownerName = scope === "class" && parent ? `${parent}.${name}` : name;
+
+      if (t.isFunctionDeclaration(node)) {
+        // Overloaded functions are called through their overload signatures, not the implementation's
+        const overloads = this.getOverloadSignatures(binding.path as NodePath<t.FunctionDeclaration>);
+        const signature = overloads.length > 0
+          ? overloads.map((overload) => this.generateFunctionSignature(overload)).join("; ")
+          : this.generateFunctionSignature(node);
+        symbols.push({ ...base, type: "function", signature });
+      } else if (t.isClassDeclaration(node)) {
+        symbols.push({ ...base, type: "class", signature: this.generateClassSignature(node), ...this.getHeritage(node) });
+        this.collectClassMembers(node, ownerName, filePath, symbols);
+      } else if (t.isVariableDeclarator(node)) {
+        const init = this.unwrapExpression(node.init);
+
+        if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+          symbols.push({ ...base, type: "function", signature: this.generateFunctionSignature(init, name) });
+        } else if (t.isClassExpression(init)) {
+          symbols.push({ ...base, type: "class", signature: this.generateClassSignature(init, name), ...this.getHeritage(init) });
+          this.collectClassMembers(init, ownerName, filePath, symbols);
+        } else {
+          // `as const` objects have a fixed set of keys
+          const readonly = this.isConstAssertion(node.init) || undefined;
+          symbols.push({ ...base, type: "variable", readonly });
+          // Object literals used as modules (`export const api = { get() {} }`)
+          if (scope !== "function" && t.isObjectExpression(init) && t.isIdentifier(node.id)) {
+            this.collectObjectMembers(init, ownerName, filePath, symbols, readonly);
+          }
+        }
+      }
     }
+  }
+
+  /**
+   * Record declarations that have no runtime binding: types, interfaces, enums,
+   * namespaces and ambient (`declare`) declarations
+   */
+  private collectTypeDeclarations(
+    statements: t.Statement[],
+    scope: SymbolScope,
+    parent: string | undefined,
+    filePath: string,
+    symbols: SymbolInfo[]
+  ): void {
+    for (const statement of statements) {
+      const declaration =
+        t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+          ? statement.declaration
+          : statement;
+      if (!declaration || !("id" in declaration) || !t.isIdentifier(declaration.id)) continue;
+
+      const name = declaration.id.name;
+      const base = {
+        name,
+        filePath,
+        line: declaration.loc?.start.line,
+        column: declaration.loc?.start.column,
+        exported: false,
+        scope,
+        parent,
+        jsdoc: getLeadingJSDoc(declaration, statement),
+      };
+
+      const qualifiedName = scope === "class" && parent ? `${parent}.${name}` : name;
+
+      if (t.isTSInterfaceDeclaration(declaration)) {
+        // Declaration merging adds members to an interface that is already recorded
+        const heritage = this.getHeritage(declaration);
+        const merged = symbols.find(
+          (s) => s.name === name && s.type === "interface" && s.scope === scope && s.parent === parent
+        );
+        const indexed = this.hasIndexSignature(declaration.body.body) || undefined;
+        if (merged) {
+          if (heritage.extends) merged.extends = [...(merged.extends || []), ...heritage.extends];
+          merged.indexed ||= indexed;
+        } else {
+          symbols.push({
+            ...base,
+            type: "interface",
+            signature: this.generateTypeSignature(declaration),
+            ...heritage,
+            indexed,
+          });
+        }
+        this.collectTypeMembers(declaration.body.body, qualifiedName, filePath, symbols);
+      } else if (t.isTSTypeAliasDeclaration(declaration)) {
+        // Object types (`{ ... }`, `Base & { ... }`) have members like an interface
+        const shape = this.getObjectTypeShape(declaration);
+        symbols.push({
+          ...base,
+          type: "type",
+          signature: this.generateTypeSignature(declaration),
+          extends: shape?.extends.length ? shape.extends : undefined,
+          indexed: (shape && this.hasIndexSignature(shape.members)) || undefined,
+        });
+        if (shape) {
+          this.collectTypeMembers(shape.members, qualifiedName, filePath, symbols);
+        }
+      } else if (t.isTSEnumDeclaration(declaration)) {
+        // Merged enum declarations add members to the enum that is already recorded
+        const merged = symbols.some(
+          (s) => s.name === name && s.type === "enum" && s.scope === scope && s.parent === parent
+        );
+        if (!merged) {
+          symbols.push({ ...base, type: "enum" });
+        }
+        this.collectEnumMembers(declaration, qualifiedName, filePath, symbols);
+      } else if (t.isTSModuleDeclaration(declaration) && declaration.kind !== "global") {
+        symbols.push({ ...base, type: "namespace" });
+      } else if (t.isTSDeclareFunction(declaration)) {
+        // Overloads share one symbol, declared by the first signature or the implementation
+        const declared = symbols.some(
+          (s) => s.name === name && s.type === "function" && s.scope === scope && s.parent === parent
+        );
+        if (!declared) {
+          symbols.push({ ...base, type: "function", signature: this.generateFunctionSignature(declaration) });
+        }
+      } else if (t.isClassDeclaration(declaration) && declaration.declare) {
+        symbols.push({
+          ...base,
+          type: "class",
+          signature: this.generateClassSignature(declaration),
+          ...this.getHeritage(declaration),
+        });
+        this.collectClassMembers(declaration, qualifiedName, filePath, symbols);
+      }
+    }
+  }
+
+  /**
+   * Record the methods, accessors and properties of a class as members owned by it,
+   * with their visibility and whether they are static
+   */
+  private collectClassMembers(node: t.Class, className: string, filePath: string, symbols: SymbolInfo[]): void {
+    const seen = new Set<string>();
+
+    for (const member of node.body.body) {
+      // `constructor(private readonly repo: Repo)` declares a property
+      if (t.isClassMethod(member) && member.kind === "constructor") {
+        for (const param of member.params) {
+          if (!t.isTSParameterProperty(param)) continue;
+          const property = this.extractParameter(param);
+          symbols.push({
+            name: property.name,
+            type: "property",
+            filePath,
+            line: param.loc?.start.line,
+            column: param.loc?.start.column,
+            signature: formatParameter({ ...property, optional: false }),
+            exported: false,
+            scope: "class",
+            parent: className,
+            jsdoc: getLeadingJSDoc(param),
+            visibility: param.accessibility || "public",
+            readonly: param.readonly || undefined,
+            typeAnnotation: property.type,
+          });
+        }
+      }
+
+      const name = this.getMemberName(member);
+      if (!name) continue;
+
+      let type: SymbolInfo["type"];
+      let signature: string | undefined;
+      let typeAnnotation: string | undefined;
+
+      if (t.isClassMethod(member) || t.isClassPrivateMethod(member) || t.isTSDeclareMethod(member)) {
+        type = member.kind === "get" ? "getter" : member.kind === "set" ? "setter" : "function";
+        signature = type === "function" ? this.generateMethodSignature(member) : undefined;
+      } else if (t.isClassProperty(member) || t.isClassPrivateProperty(member) || t.isClassAccessorProperty(member)) {
+        const value = this.unwrapExpression(member.value);
+        if (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value)) {
+          type = "function";
+          signature = this.generateFunctionSignature(value, name);
+        } else {
+          type = "property";
+          typeAnnotation = this.extractTypeAnnotation(member);
+        }
+      } else {
+        continue;
+      }
+
+      // Overload signatures and their implementation are one member
+      const key = `${member.static ? "static " : ""}${type}:${name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      symbols.push({
+        name,
+        type,
+        filePath,
+        line: member.loc?.start.line,
+        column: member.loc?.start.column,
+        signature,
+        exported: false,
+        scope: "class",
+        parent: className,
+        jsdoc: getLeadingJSDoc(member),
+        visibility: name.startsWith("#") ? "#private" : member.accessibility || "public",
+        static: member.static || undefined,
+        readonly: ("readonly" in member && member.readonly) || undefined,
+        optional: member.optional || undefined,
+        typeAnnotation,
+      });
+    }
+  }
+
+  /**
+   * Record the properties and methods declared in an interface body or object type as members owned by it
+   */
+  private collectTypeMembers(
+    members: t.TSTypeElement[],
+    interfaceName: string,
+    filePath: string,
+    symbols: SymbolInfo[]
+  ): void {
+    for (const member of members) {
+      if (!t.isTSPropertySignature(member) && !t.isTSMethodSignature(member)) continue;
+
+      const name = this.getMemberName(member);
+      if (!name) continue;
+
+      let type: SymbolInfo["type"] = "property";
+      if (t.isTSMethodSignature(member)) {
+        type = member.kind === "get" ? "getter" : member.kind === "set" ? "setter" : "function";
+      }
+
+      // Method overloads, and members repeated by declaration merging
+      const declared = symbols.some(
+        (s) => s.name === name && s.type === type && s.scope === "class" && s.parent === interfaceName && s.filePath === filePath
+      );
+      if (declared) continue;
+
+      symbols.push({
+        name,
+        type,
+        filePath,
+        line: member.loc?.start.line,
+        column: member.loc?.start.column,
+        signature: this.typeMemberToString(member),
+        exported: false,
+        scope: "class",
+        parent: interfaceName,
+        jsdoc: getLeadingJSDoc(member),
+        readonly: ("readonly" in member && member.readonly) || undefined,
+        optional: member.optional || undefined,
+        typeAnnotation: t.isTSPropertySignature(member) ? this.extractTypeAnnotation(member) : undefined,
+      });
+    }
+  }
+
+  /**
+   * Whether an interface body or object type accepts any key (`[key: string]: T`)
+   */
+  private hasIndexSignature(members: t.TSTypeElement[]): boolean {
+    return members.some((member) => t.isTSIndexSignature(member));
+  }
+
+  /**
+   * Members and intersected types of a type alias for an object type: `{ ... }`, `Base`,
+   * or an intersection of those. Returns undefined for any other type (unions, mapped
+   * types, type parameters), whose members can't be listed.
+   */
+  private getObjectTypeShape(
+    declaration: t.TSTypeAliasDeclaration
+  ): { members: t.TSTypeElement[]; extends: string[] } | undefined {
+    const typeParameters = (declaration.typeParameters?.params ?? []).map((parameter) => this.typeParameterName(parameter));
+    const shape = { members: [] as t.TSTypeElement[], extends: [] as string[] };
+
+    let body: t.TSType = declaration.typeAnnotation;
+    while (t.isTSParenthesizedType(body)) body = body.typeAnnotation;
+
+    for (let operand of t.isTSIntersectionType(body) ? body.types : [body]) {
+      while (t.isTSParenthesizedType(operand)) operand = operand.typeAnnotation;
+
+      if (t.isTSTypeLiteral(operand)) {
+        shape.members.push(...operand.members);
+      } else if (t.isTSTypeReference(operand) && !typeParameters.includes(this.entityNameToString(operand.typeName))) {
+        shape.extends.push(this.entityNameToString(operand.typeName));
+      } else {
+        return undefined;
+      }
+    }
+    return shape;
+  }
+
+  /**
+   * Names in the `extends` and `implements` clauses of a class or interface, without type arguments
+   */
+  private getHeritage(node: t.Class | t.TSInterfaceDeclaration): Pick<SymbolInfo, "extends" | "implements"> {
+    const names = (clauses: t.Node[] | null | undefined) =>
+      clauses?.length ? clauses.map((clause) => this.heritageName(clause)) : undefined;
+
+    if (t.isTSInterfaceDeclaration(node)) {
+      return { extends: names(node.extends) };
+    }
+    return {
+      extends: node.superClass ? [this.heritageName(node.superClass)] : undefined,
+      implements: names(node.implements),
+    };
+  }
+
+  /**
+   * Name of a heritage clause: `Base`, `ns.Base`, or `Mixin(...)` for a class built by a call
+   */
+  private heritageName(clause: t.Node): string {
+    const expression = "expression" in clause && clause.expression ? clause.expression : clause;
+    if (t.isCallExpression(expression)) {
+      return `${this.entityNameToString(expression.callee)}(...)`;
+    }
+    return this.entityNameToString(expression);
+  }
+
+  /**
+   * Record the members of an enum, with their initializers
+   */
+  private collectEnumMembers(node: t.TSEnumDeclaration, enumName: string, filePath: string, symbols: SymbolInfo[]): void {
+    for (const member of node.body?.members ?? node.members) {
+      const name = t.isIdentifier(member.id) ? member.id.name : member.id.value;
+      const value = member.initializer ? this.literalTypeToString(member.initializer) : "unknown";
+
+      symbols.push({
+        name,
+        type: "enum-member",
+        filePath,
+        line: member.loc?.start.line,
+        column: member.loc?.start.column,
+        signature: value !== "unknown" ? `${name} = ${value}` : name,
+        exported: false,
+        scope: "class",
+        parent: enumName,
+        jsdoc: getLeadingJSDoc(member),
+        readonly: true,
+      });
+    }
+  }
+
+  /**
+   * Record the methods and properties of an object literal as members owned by it
+   */
+  private collectObjectMembers(
+    node: t.ObjectExpression,
+    objectName: string,
+    filePath: string,
+    symbols: SymbolInfo[],
+    readonly?: boolean
+  ): void {
+    for (const property of node.properties) {
+      if (t.isSpreadElement(property)) continue;
+
+      const name = this.getMemberName(property);
+      if (!name) continue;
+
+      let type: SymbolInfo["type"] = "property";
+      let signature: string | undefined;
+
+      if (t.isObjectMethod(property)) {
+        type = property.kind === "get" ? "getter" : property.kind === "set" ? "setter" : "function";
+        signature = type === "function" ? this.generateMethodSignature(property) : undefined;
+      } else {
+        const value = this.unwrapExpression(property.value);
+        if (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value)) {
+          type = "function";
+          signature = this.generateFunctionSignature(value, name);
+        }
+      }
+
+      symbols.push({
+        name,
+        type,
+        filePath,
+        line: property.loc?.start.line,
+        column: property.loc?.start.column,
+        signature,
+        exported: false,
+        scope: "class",
+        parent: objectName,
+        jsdoc: getLeadingJSDoc(property),
+        readonly,
+      });
+    }
+  }
+
+  /**
+   * Names a module exports from its own declarations
+   */
+  private collectExportedNames(program: t.Program): Set<string> {
+    const names = new Set<string>();
+
+    for (const statement of program.body) {
+      if (t.isExportNamedDeclaration(statement)) {
+        const declaration = statement.declaration;
+        if (t.isVariableDeclaration(declaration)) {
+          for (const declarator of declaration.declarations) {
+            if (t.isIdentifier(declarator.id)) names.add(declarator.id.name);
+          }
+        } else if (declaration && "id" in declaration && t.isIdentifier(declaration.id)) {
+          names.add(declaration.id.name);
+        }
+
+        // `export { local }`, but not re-exports from other modules
+        if (!statement.source) {
+          for (const specifier of statement.specifiers) {
+            if (t.isExportSpecifier(specifier)) names.add(specifier.local.name);
+          }
+        }
+      } else if (t.isExportDefaultDeclaration(statement)) {
+        const declaration = statement.declaration;
+        if (t.isIdentifier(declaration)) {
+          names.add(declaration.name);
+        } else if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+          names.add(declaration.id.name);
+        }
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Name of the symbol a function belongs to (`Class.method` for methods),
+   * falling back to the nearest named enclosing function for anonymous callbacks
+   */
+  private getQualifiedName(path: NodePath<t.Function>): string | undefined {
+    const node = path.node;
+
+    if ((t.isClassMethod(node) || t.isClassPrivateMethod(node)) && !node.computed) {
+      const key = t.isIdentifier(node.key) ? node.key.name : t.isPrivateName(node.key) ? `#${node.key.id.name}` : undefined;
+      const classNode = path.parentPath?.parentPath?.node;
+      const className = t.isClass(classNode) && classNode.id ? classNode.id.name : undefined;
+      if (key) return className ? `${className}.${key}` : key;
+    }
+
+    if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+      return node.id.name;
+    }
+
+    if (t.isVariableDeclarator(path.parent) && t.isIdentifier(path.parent.id)) {
+      return path.parent.id.name;
+    }
+
+    const enclosing = path.parentPath?.getFunctionParent();
+    return enclosing ? this.getQualifiedName(enclosing) : undefined;
+  }
+
+  /**
+   * Qualified name of the class a member belongs to, as its member symbols record it
+   * (`ns.Repo` for classes in namespaces), or undefined for anonymous classes
+   */
+  private getOwnerClassName(path: NodePath): string | undefined {
+    const classPath = path.findParent((p) => t.isClass(p.node));
+    if (!classPath) return undefined;
+
+    const node = classPath.node as t.Class;
+    const declarator = classPath.parent;
+    const name = node.id
+      ? node.id.name
+      : t.isVariableDeclarator(declarator) && t.isIdentifier(declarator.id)
+        ? declarator.id.name
+        : undefined;
+    if (!name) return undefined;
+
+    const block = classPath.findParent((p) => t.isTSModuleBlock(p.node));
+    const namespace = block ? this.getNamespaceName(block as NodePath<t.TSModuleBlock>) : undefined;
+    return namespace ? `${namespace}.${name}` : name;
+  }
+
+  /**
+   * Qualified name of the namespace a block belongs to (`A.B` for `namespace A.B {}`),
+   * or undefined for `declare module "x"` and `declare global`
+   */
+  private getNamespaceName(path: NodePath<t.TSModuleBlock>): string | undefined {
+    const names: string[] = [];
+
+    for (let current: NodePath | null = path.parentPath; current; current = current.parentPath) {
+      if (!t.isTSModuleDeclaration(current.node)) continue;
+      if (!t.isIdentifier(current.node.id) || current.node.kind === "global") return undefined;
+      names.unshift(current.node.id.name);
+    }
+
+    return names.length > 0 ? names.join(".") : undefined;
+  }
+
+  /**
+   * Name of a class or object member, or undefined for computed keys
+   */
+  private getMemberName(member: t.Node): string | undefined {
+    if (!("key" in member) || ("computed" in member && member.computed)) return undefined;
+
+    const key = member.key;
+    if (t.isIdentifier(key)) return key.name;
+    if (t.isPrivateName(key)) return `#${key.id.name}`;
+    if (t.isStringLiteral(key)) return key.value;
+    if (t.isNumericLiteral(key)) return String(key.value);
+    return undefined;
+  }
+
+  /**
+   * Strip TypeScript-only wrappers (`as`, `satisfies`, `!`) from an expression
+   */
+  private unwrapExpression(node: t.Node | null | undefined): t.Node | null | undefined {
+    let current = node;
+    while (
+      t.isTSAsExpression(current) ||
+      t.isTSSatisfiesExpression(current) ||
+      t.isTSNonNullExpression(current) ||
+      t.isParenthesizedExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Whether an initializer is asserted `as const`, possibly inside `satisfies` or parentheses
+   */
+  private isConstAssertion(node: t.Node | null | undefined): boolean {
+    let current = node;
+    while (t.isTSSatisfiesExpression(current) || t.isParenthesizedExpression(current)) {
+      current = current.expression;
+    }
+    return (
+      t.isTSAsExpression(current) &&
+      t.isTSTypeReference(current.typeAnnotation) &&
+      t.isIdentifier(current.typeAnnotation.typeName, { name: "const" })
+    );
+  }
+
+  /**
+   * The overload signatures declared right before a function's implementation, in order
+   */
+  private getOverloadSignatures(path: NodePath<t.FunctionDeclaration>): t.TSDeclareFunction[] {
+    const overloads: t.TSDeclareFunction[] = [];
+    let statement = t.isExportNamedDeclaration(path.parent) ? path.parentPath : path;
+
+    while (true) {
+      statement = statement.getPrevSibling();
+      const node = t.isExportNamedDeclaration(statement.node) ? statement.node.declaration : statement.node;
+      if (!t.isTSDeclareFunction(node) || node.id?.name !== path.node.id?.name) break;
+      overloads.unshift(node);
+    }
+
+    return overloads;
+  }
+
+  /**
+   * Whether a function or method is the implementation behind overload signatures
+   */
+  private isOverloadImplementation(path: NodePath<t.FunctionDeclaration | t.ClassMethod>): boolean {
+    const statement = t.isExportNamedDeclaration(path.parent) ? path.parentPath : path;
+    const previous = statement.getPrevSibling();
+    const node = t.isExportNamedDeclaration(previous.node) ? previous.node.declaration : previous.node;
+
+    if (t.isFunctionDeclaration(path.node)) {
+      return t.isTSDeclareFunction(node) && node.id?.name === path.node.id?.name;
+    }
+    return t.isTSDeclareMethod(node) && this.getMemberName(node) === this.getMemberName(path.node);
+  }
+
+  /**
+   * Build the signature record for a function-like node
+   */
+  private buildSignature(
+    name: string,
+    node: t.Function | t.TSDeclareFunction | t.TSDeclareMethod,
+    filePath: string,
+    jsdoc?: JSDocInfo
+  ): FunctionSignature {
+    // A `this` parameter only types the receiver; callers never pass it
+    const thisParam = node.params.find((param) => t.isIdentifier(param) && param.name === "this");
+    const typeParameters = this.typeParameterList(node.typeParameters);
+
+    const parameters = node.params.filter((param) => param !== thisParam).map((param) => this.extractParameter(param));
+
+    // Plain JavaScript declares its types in JSDoc instead
+    parameters.forEach((param, i) => {
+      const doc = jsdoc?.params?.find((p) => p.name === param.name) ?? (param.properties ? jsdoc?.params?.[i] : undefined);
+      if (doc && !param.type) {
+        param.type = doc.type;
+        param.optional = param.optional || Boolean(doc.optional);
+      }
+    });
+
+    return {
+      name,
+      parameters,
+      thisType: thisParam ? this.extractTypeAnnotation(thisParam) : undefined,
+      returnType: this.extractReturnType(node) ?? jsdoc?.returns?.type,
+      typeParameters: typeParameters.length > 0 ? typeParameters : undefined,
+      filePath,
+      line: node.loc?.start.line,
+      isAsync: Boolean(node.async),
+      isGenerator: Boolean(node.generator),
+      jsdoc,
+    };
+  }
+
+  /**
+   * Build the signature of a class member. Constructors are named after their class,
+   * so `new Repo(...)` is looked up like a call to `Repo(...)`.
+   */
+  private buildMemberSignature(
+    name: string,
+    path: NodePath<t.ClassMethod | t.ClassPrivateMethod | t.TSDeclareMethod | t.ClassProperty>,
+    node: t.Function | t.TSDeclareMethod,
+    filePath: string
+  ): FunctionSignature {
+    const parent = this.getOwnerClassName(path);
+    const isConstructor = "kind" in path.node && path.node.kind === "constructor" && parent !== undefined;
+    const signatureName = isConstructor ? parent!.split(".").pop()! : name;
+
+    return {
+      ...this.buildSignature(signatureName, node, filePath, getLeadingJSDoc(path.node)),
+      parent,
+      isConstructor: isConstructor || undefined,
+    };
+  }
+
+  /**
+   * Find the JSDoc of a declaration, looking past `const` and `export` wrappers
+   * (comments attach to the outermost statement)
+   */
+  private getPathJSDoc(path: NodePath): JSDocInfo | undefined {
+    const candidates: t.Node[] = [path.node];
+
+    let current: NodePath | null = path;
+    while (
+      current?.parentPath &&
+      (t.isVariableDeclarator(current.parent) ||
+        t.isVariableDeclaration(current.parent) ||
+        t.isExportNamedDeclaration(current.parent) ||
+        t.isExportDefaultDeclaration(current.parent))
+    ) {
+      current = current.parentPath;
+      candidates.push(current.node);
+    }
+
+    return getLeadingJSDoc(...candidates);
+  }
+
+  /**
+   * Generate a human-readable function signature
+   */
+  private generateFunctionSignature(
+    node: t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression | t.TSDeclareFunction,
+    variableName?: string
+  ): string {
+    const name = variableName || (t.isIdentifier(node.id) ? node.id.name : "anonymous");
+    const params = node.params.map((param) => this.paramToString(param)).join(", ");
+
+    let signature = `${name}${this.typeParametersToString(node.typeParameters)}(${params})`;
 
     if (node.generator && !t.isArrowFunctionExpression(node)) {
       signature = `function* ${signature}`;
@@ -312,6 +999,10 @@ export class ASTAnalyzer {
       signature = `function ${signature}`;
     }
 
+    if (node.async) {
+      signature = `async ${signature}`;
+    }
+
     const returnType = this.extractReturnType(node);
     if (returnType) {
       signature += `: ${returnType}`;
@@ -323,18 +1014,11 @@ export class ASTAnalyzer {
   /**
    * Generate method signature
    */
-  private generateMethodSignature(node: t.ClassMethod | t.ClassPrivateMethod): string {
-    const name = t.isIdentifier(node.key) ? node.key.name : "anonymous";
-    const params = node.params
-      .map((param) => {
-        if (t.isIdentifier(param)) {
-          return param.optional ? `${param.name}?` : param.name;
-        }
-        return "(...)";
-      })
-      .join(", ");
+  private generateMethodSignature(node: t.ClassMethod | t.ClassPrivateMethod | t.TSDeclareMethod | t.ObjectMethod): string {
+    const name = this.getMemberName(node) || "anonymous";
+    const params = node.params.map((param) => this.paramToString(param)).join(", ");
 
-    let signature = `${name}(${params})`;
+    let signature = `${name}${this.typeParametersToString(node.typeParameters)}(${params})`;
 
     if (node.async) {
       signature = `async ${signature}`;
@@ -353,14 +1037,123 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Extract type annotation from a parameter
+   * Generate the header of a class (`class Repo<T> extends Base<T> implements Store`)
    */
-  private extractTypeAnnotation(param: t.Pattern): string | undefined {
-    if (
-      t.isIdentifier(param) &&
-      param.typeAnnotation &&
-      t.isTSTypeAnnotation(param.typeAnnotation)
-    ) {
+  private generateClassSignature(node: t.Class, className?: string): string {
+    const name = className || (node.id ? node.id.name : "anonymous");
+    let signature = `${node.abstract ? "abstract " : ""}class ${name}${this.typeParametersToString(node.typeParameters)}`;
+
+    if (node.superClass) {
+      signature += ` extends ${this.entityNameToString(node.superClass)}${this.typeArgumentsToString({
+        typeParameters: node.superTypeParameters,
+        typeArguments: node.superTypeArguments,
+      })}`;
+    }
+    if (node.implements?.length) {
+      signature += ` implements ${node.implements.map((heritage) => this.tsTypeToString(heritage)).join(", ")}`;
+    }
+
+    return signature;
+  }
+
+  /**
+   * Generate the declaration of an interface or type alias
+   */
+  private generateTypeSignature(node: t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration): string {
+    const header = `${node.id.name}${this.typeParametersToString(node.typeParameters)}`;
+
+    if (t.isTSTypeAliasDeclaration(node)) {
+      return `type ${header} = ${this.tsTypeToString(node.typeAnnotation)}`;
+    }
+
+    const heritage = node.extends?.length
+      ? ` extends ${node.extends.map((parent) => this.tsTypeToString(parent)).join(", ")}`
+      : "";
+    return `interface ${header}${heritage}`;
+  }
+
+  /**
+   * Describe a parameter: destructured keys, defaults (optional), rest and parameter properties
+   */
+  private extractParameter(param: t.Node): ParameterInfo {
+    if (t.isTSParameterProperty(param)) {
+      return {
+        ...this.extractParameter(param.parameter),
+        accessibility: param.accessibility || undefined,
+        readonly: param.readonly || undefined,
+      };
+    }
+
+    if (t.isRestElement(param)) {
+      const inner = this.extractParameter(param.argument);
+      return {
+        ...inner,
+        type: this.extractTypeAnnotation(param) ?? inner.type,
+        optional: true,
+        rest: true,
+      };
+    }
+
+    if (t.isAssignmentPattern(param)) {
+      return { ...this.extractParameter(param.left), optional: true };
+    }
+
+    const info: ParameterInfo = {
+      name: "unknown",
+      type: this.extractTypeAnnotation(param),
+      optional: t.isIdentifier(param) && param.optional ? true : false,
+    };
+
+    if (t.isIdentifier(param)) {
+      info.name = param.name;
+    } else if (t.isObjectPattern(param) || t.isArrayPattern(param)) {
+      info.properties = this.patternKeys(param);
+      info.name = t.isObjectPattern(param)
+        ? `{ ${info.properties.join(", ")} }`
+        : `[${info.properties.join(", ")}]`;
+      info.optional = Boolean(param.optional);
+    }
+
+    return info;
+  }
+
+  /**
+   * Keys destructured by an object pattern, or element names of an array pattern
+   */
+  private patternKeys(pattern: t.ObjectPattern | t.ArrayPattern): string[] {
+    const keys: string[] = [];
+
+    if (t.isObjectPattern(pattern)) {
+      for (const property of pattern.properties) {
+        if (t.isRestElement(property)) {
+          keys.push(`...${this.extractParameter(property.argument).name}`);
+        } else {
+          const key = this.getMemberName(property);
+          if (key) keys.push(key);
+        }
+      }
+      return keys;
+    }
+
+    for (const element of pattern.elements) {
+      if (!element) continue;
+      const name = this.extractParameter(element).name;
+      keys.push(t.isRestElement(element) ? `...${name}` : name);
+    }
+    return keys;
+  }
+
+  /**
+   * Extract the type annotation of a parameter, whatever its shape
+   */
+  private extractTypeAnnotation(param: t.Node): string | undefined {
+    if (t.isTSParameterProperty(param)) {
+      return this.extractTypeAnnotation(param.parameter);
+    }
+    if (t.isAssignmentPattern(param)) {
+      return this.extractTypeAnnotation(param.left);
+    }
+    if ("typeAnnotation" in param && param.typeAnnotation && t.isTSTypeAnnotation(param.typeAnnotation)) {
       return this.tsTypeToString(param.typeAnnotation.typeAnnotation);
     }
     return undefined;
@@ -370,7 +1163,7 @@ export class ASTAnalyzer {
    * Extract return type from function
    */
   private extractReturnType(
-    node: t.Function | t.FunctionDeclaration | t.FunctionExpression | t.ArrowFunctionExpression | t.ClassMethod | t.ClassPrivateMethod
+    node: t.Function | t.TSDeclareFunction | t.TSDeclareMethod
   ): string | undefined {
     if (
       node.returnType &&
@@ -382,27 +1175,294 @@ export class ASTAnalyzer {
   }
 
   /**
-   * Convert TypeScript type to string
+   * Print a TypeScript type the way it is written in source
    */
   private tsTypeToString(type: t.TSType): string {
-    if (t.isTSStringKeyword(type)) return "string";
-    if (t.isTSNumberKeyword(type)) return "number";
-    if (t.isTSBooleanKeyword(type)) return "boolean";
-    if (t.isTSVoidKeyword(type)) return "void";
-    if (t.isTSAnyKeyword(type)) return "any";
-    if (t.isTSUnknownKeyword(type)) return "unknown";
-    if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) {
-      return type.typeName.name;
+    const keyword = TS_KEYWORD_TYPES[type.type];
+    if (keyword) return keyword;
+
+    switch (type.type) {
+      case "TSThisType":
+        return "this";
+
+      case "TSTypeReference":
+        return this.entityNameToString(type.typeName) + this.typeArgumentsToString(type);
+
+      case "TSExpressionWithTypeArguments":
+      case "TSInterfaceHeritage":
+        return this.entityNameToString(type.expression) + this.typeArgumentsToString(type);
+
+      case "TSLiteralType":
+        return this.literalTypeToString(type.literal);
+
+      case "TSTemplateLiteralType":
+        return this.templateLiteralToString(type.quasis, type.types);
+
+      case "TSArrayType":
+        return `${this.wrapOperand(type.elementType)}[]`;
+
+      case "TSTupleType":
+        return `[${type.elementTypes.map((element) => this.tupleElementToString(element)).join(", ")}]`;
+
+      case "TSOptionalType":
+        return `${this.wrapOperand(type.typeAnnotation)}?`;
+
+      case "TSRestType":
+        return `...${this.tupleElementToString(type.typeAnnotation)}`;
+
+      case "TSUnionType":
+        // Intersections bind tighter than unions, so only they go unwrapped
+        return type.types
+          .map((member) => (t.isTSIntersectionType(member) ? this.tsTypeToString(member) : this.wrapLooseType(member)))
+          .join(" | ");
+
+      case "TSIntersectionType":
+        return type.types.map((member) => this.wrapLooseType(member)).join(" & ");
+
+      case "TSFunctionType":
+      case "TSConstructorType": {
+        const prefix = type.type === "TSConstructorType" ? `${type.abstract ? "abstract " : ""}new ` : "";
+        const params = (type.parameters ?? type.params ?? []).map((param) => this.paramToString(param)).join(", ");
+        const returnType = type.typeAnnotation ?? type.returnType;
+        const returns = returnType ? this.tsTypeToString(returnType.typeAnnotation) : "void";
+        return `${prefix}${this.typeParametersToString(type.typeParameters)}(${params}) => ${returns}`;
+      }
+
+      case "TSTypeLiteral":
+        return this.typeMembersToString(type.members);
+
+      case "TSTypeOperator":
+        return `${type.operator} ${this.wrapOperand(type.typeAnnotation)}`;
+
+      case "TSIndexedAccessType":
+        return `${this.wrapOperand(type.objectType)}[${this.tsTypeToString(type.indexType)}]`;
+
+      case "TSConditionalType":
+        return (
+          `${this.wrapLooseType(type.checkType)} extends ${this.wrapLooseType(type.extendsType)}` +
+          ` ? ${this.tsTypeToString(type.trueType)} : ${this.tsTypeToString(type.falseType)}`
+        );
+
+      case "TSInferType": {
+        const parameter = type.typeParameter;
+        const constraint = parameter.constraint ? ` extends ${this.tsTypeToString(parameter.constraint)}` : "";
+        return `infer ${this.typeParameterName(parameter)}${constraint}`;
+      }
+
+      case "TSMappedType": {
+        const parameter = type.typeParameter;
+        const name = parameter ? this.typeParameterName(parameter) : type.key?.name;
+        const constraint = parameter?.constraint ?? type.constraint;
+        const readonly = type.readonly === true ? "readonly " : type.readonly ? `${type.readonly}readonly ` : "";
+        const optional = type.optional === true ? "?" : type.optional ? `${type.optional}?` : "";
+        const as = type.nameType ? ` as ${this.tsTypeToString(type.nameType)}` : "";
+        const value = type.typeAnnotation ? `: ${this.tsTypeToString(type.typeAnnotation)}` : "";
+        return `{ ${readonly}[${name} in ${this.tsTypeToString(constraint)}${as}]${optional}${value} }`;
+      }
+
+      case "TSParenthesizedType":
+        return `(${this.tsTypeToString(type.typeAnnotation)})`;
+
+      case "TSTypeQuery": {
+        const target = t.isTSImportType(type.exprName)
+          ? this.tsTypeToString(type.exprName)
+          : this.entityNameToString(type.exprName);
+        return `typeof ${target}${this.typeArgumentsToString(type)}`;
+      }
+
+      case "TSImportType": {
+        const argument = t.isStringLiteral(type.argument) ? type.argument : type.argument?.literal;
+        const qualifier = type.qualifier ? `.${this.entityNameToString(type.qualifier)}` : "";
+        return `import(${JSON.stringify(argument?.value ?? "")})${qualifier}${this.typeArgumentsToString(type)}`;
+      }
+
+      case "TSTypePredicate": {
+        const subject = t.isIdentifier(type.parameterName) ? type.parameterName.name : "this";
+        const predicate = type.typeAnnotation ? ` is ${this.tsTypeToString(type.typeAnnotation.typeAnnotation)}` : "";
+        return `${type.asserts ? "asserts " : ""}${subject}${predicate}`;
+      }
+
+      default:
+        return "unknown";
     }
-    if (t.isTSArrayType(type)) {
-      return `${this.tsTypeToString(type.elementType)}[]`;
+  }
+
+  /**
+   * Print type parameters (`<T extends Base = Default>`), or nothing without any
+   */
+  private typeParametersToString(declaration: t.TSTypeParameterDeclaration | null | undefined): string {
+    if (!declaration || !t.isTSTypeParameterDeclaration(declaration) || declaration.params.length === 0) {
+      return "";
     }
-    if (t.isTSUnionType(type)) {
-      return type.types.map((t) => this.tsTypeToString(t)).join(" | ");
+    return `<${this.typeParameterList(declaration).join(", ")}>`;
+  }
+
+  /**
+   * Each type parameter as written (`const T extends string = "a"`)
+   */
+  private typeParameterList(declaration: t.TSTypeParameterDeclaration | null | undefined): string[] {
+    if (!declaration || !t.isTSTypeParameterDeclaration(declaration)) return [];
+
+    return declaration.params.map((parameter) => {
+      const modifiers = [parameter.const && "const", parameter.in && "in", parameter.out && "out"].filter(Boolean);
+      let text = [...modifiers, this.typeParameterName(parameter)].join(" ");
+      if (parameter.constraint) text += ` extends ${this.tsTypeToString(parameter.constraint)}`;
+      if (parameter.default) text += ` = ${this.tsTypeToString(parameter.default)}`;
+      return text;
+    });
+  }
+
+  /**
+   * Type parameter names are strings in Babel 7 and identifiers in Babel 8
+   */
+  private typeParameterName(parameter: t.TSTypeParameter): string {
+    return typeof parameter.name === "string" ? parameter.name : parameter.name.name;
+  }
+
+  /**
+   * Print the type arguments of a reference (`<string, number>`)
+   */
+  private typeArgumentsToString(node: { typeParameters?: t.TSTypeParameterInstantiation | null; typeArguments?: t.TSTypeParameterInstantiation | null }): string {
+    const instantiation = node.typeParameters ?? node.typeArguments;
+    if (!instantiation || instantiation.params.length === 0) return "";
+    return `<${instantiation.params.map((param) => this.tsTypeToString(param)).join(", ")}>`;
+  }
+
+  /**
+   * Print `A`, `A.B.C` or an expression used as a heritage clause
+   */
+  private entityNameToString(name: t.Node): string {
+    if (t.isIdentifier(name)) return name.name;
+    if (t.isThisExpression(name)) return "this";
+    if (t.isTSQualifiedName(name)) return `${this.entityNameToString(name.left)}.${this.entityNameToString(name.right)}`;
+    if (t.isMemberExpression(name) && !name.computed) {
+      return `${this.entityNameToString(name.object)}.${this.entityNameToString(name.property)}`;
     }
     return "unknown";
   }
 
+  /**
+   * Print a literal type: `"a"`, `1`, `-1`, `true`, `10n` or a template literal type
+   */
+  private literalTypeToString(literal: t.Node): string {
+    if (t.isStringLiteral(literal)) return JSON.stringify(literal.value);
+    if (t.isNumericLiteral(literal) || t.isBooleanLiteral(literal)) return String(literal.value);
+    if (t.isBigIntLiteral(literal)) return `${literal.value}n`;
+    if (t.isUnaryExpression(literal)) return `${literal.operator}${this.literalTypeToString(literal.argument)}`;
+    if (t.isTemplateLiteral(literal)) return this.templateLiteralToString(literal.quasis, literal.expressions);
+    return "unknown";
+  }
+
+  /**
+   * Print a template literal type (`` `prefix-${string}` ``)
+   */
+  private templateLiteralToString(quasis: t.TemplateElement[], types: t.Node[]): string {
+    let text = "`";
+    quasis.forEach((quasi, i) => {
+      text += quasi.value.raw;
+      if (i < types.length) {
+        text += `\${${this.tsTypeToString(types[i])}}`;
+      }
+    });
+    return `${text}\``;
+  }
+
+  /**
+   * Print a tuple element, which may be labelled (`name?: T`)
+   */
+  private tupleElementToString(element: t.Node): string {
+    if (t.isTSNamedTupleMember(element)) {
+      return `${element.label.name}${element.optional ? "?" : ""}: ${this.tsTypeToString(element.elementType)}`;
+    }
+    return this.tsTypeToString(element);
+  }
+
+  /**
+   * Print an object type literal or interface body
+   */
+  private typeMembersToString(members: t.TSTypeElement[]): string {
+    if (members.length === 0) return "{}";
+    return `{ ${members.map((member) => this.typeMemberToString(member)).join("; ")} }`;
+  }
+
+  /**
+   * Print one member of an object type
+   */
+  private typeMemberToString(member: t.TSTypeElement): string {
+    const readonly = "readonly" in member && member.readonly ? "readonly " : "";
+    const annotation = (node: t.TSTypeAnnotation | null | undefined) =>
+      node ? `: ${this.tsTypeToString(node.typeAnnotation)}` : "";
+    const params = (node: t.TSMethodSignature | t.TSCallSignatureDeclaration | t.TSConstructSignatureDeclaration) =>
+      `${this.typeParametersToString(node.typeParameters)}(${(node.parameters ?? node.params ?? [])
+        .map((param) => this.paramToString(param))
+        .join(", ")})`;
+
+    switch (member.type) {
+      case "TSPropertySignature": {
+        const key = this.propertyKeyToString(member.key, member.computed);
+        return `${readonly}${key}${member.optional ? "?" : ""}${annotation(member.typeAnnotation)}`;
+      }
+      case "TSMethodSignature": {
+        const key = this.propertyKeyToString(member.key, member.computed);
+        const prefix = member.kind === "get" ? "get " : member.kind === "set" ? "set " : "";
+        return `${prefix}${key}${member.optional ? "?" : ""}${params(member)}${annotation(member.typeAnnotation ?? member.returnType)}`;
+      }
+      case "TSIndexSignature": {
+        const parameters = member.parameters.map((param) => this.paramToString(param)).join(", ");
+        return `${member.static ? "static " : ""}${readonly}[${parameters}]${annotation(member.typeAnnotation)}`;
+      }
+      case "TSCallSignatureDeclaration":
+        return `${params(member)}${annotation(member.typeAnnotation ?? member.returnType)}`;
+      case "TSConstructSignatureDeclaration":
+        return `new ${params(member)}${annotation(member.typeAnnotation ?? member.returnType)}`;
+      default:
+        return "unknown";
+    }
+  }
+
+  /**
+   * Print a property key as written (`name`, `"quoted-name"`, `[Symbol.iterator]`)
+   */
+  private propertyKeyToString(key: t.Node, computed: boolean | undefined): string {
+    if (computed) return `[${this.entityNameToString(key)}]`;
+    if (t.isIdentifier(key)) return key.name;
+    if (t.isStringLiteral(key)) return JSON.stringify(key.value);
+    if (t.isNumericLiteral(key)) return String(key.value);
+    return "unknown";
+  }
+
+  /**
+   * Print a parameter of a function type or signature (`name?: T`, `...rest: T[]`)
+   */
+  private paramToString(param: t.Node): string {
+    return formatParameter(this.extractParameter(param));
+  }
+
+  /**
+   * Parenthesize types that bind looser than `[]`, `[K]` and type operators
+   */
+  private wrapOperand(type: t.TSType): string {
+    const text = this.tsTypeToString(type);
+    return LOOSE_TYPES.has(type.type) || type.type === "TSTypeOperator" || type.type === "TSInferType"
+      ? `(${text})`
+      : text;
+  }
+
+  /**
+   * Parenthesize unions, intersections, function and conditional types
+   */
+  private wrapLooseType(type: t.TSType): string {
+    const text = this.tsTypeToString(type);
+    return LOOSE_TYPES.has(type.type) ? `(${text})` : text;
+  }
+
+  /**
+   * Drop the cached AST for a file
+   */
+  invalidate(filePath: string): void {
+    this.cache.delete(filePath);
+  }
+
   /**
    * Clear the cache
    */
@@ -0,0 +1,292 @@
+/**
+ * Class Hierarchy - Resolve the members of classes and interfaces, including members
+ * inherited through `extends` and `implements` chains across files
+ */
+
+import { WorkspaceIndex } from "./workspace-index.js";
+import { FunctionSignature, SymbolInfo } from "../types/index.js";
+
+/**
+ * Prefer classes over interfaces and object types, and those over enums, namespaces and
+ * objects of the same name
+ */
+const OWNER_RANK: Partial<Record<SymbolInfo["type"], number>> = {
+  class: 0,
+  interface: 1,
+  type: 2,
+  enum: 3,
+  namespace: 4,
+  variable: 5,
+};
+
+export interface ResolvedMember {
+  member: SymbolInfo;
+  owner: SymbolInfo; // The class or interface that declares the member
+  inherited: boolean;
+}
+
+export interface MemberTable {
+  owner: SymbolInfo;
+  members: ResolvedMember[];
+  unresolvedBases: string[]; // Heritage clauses outside the workspace (packages, globals, mixins)
+  indexed: boolean; // The owner or a base has an index signature, so any key is a member
+}
+
+/**
+ * Name of a symbol qualified by its owner (`UserRepo.save`), or its plain name at module level
+ */
+export function getQualifiedName(symbol: SymbolInfo): string {
+  return symbol.scope === "class" && symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+}
+
+export class ClassHierarchy {
+  private index: WorkspaceIndex;
+
+  constructor(index: WorkspaceIndex) {
+    this.index = index;
+  }
+
+  /**
+   * Find the class, interface, object type, enum, namespace or object literal a (possibly qualified) name refers to.
+   * From a file, its own declarations and imports are followed first; otherwise any
+   * declaration in the workspace with that name is used.
+   */
+  async findOwner(name: string, fromFile?: string): Promise<SymbolInfo | undefined> {
+    if (fromFile) {
+      const resolved = await this.resolveName(name, fromFile, new Set());
+      // null: imported from a package, so a workspace declaration of the same name isn't it
+      if (resolved !== undefined) return resolved ?? undefined;
+    }
+
+    const candidates: SymbolInfo[] = [];
+    for (const symbols of (await this.index.getAllSymbols()).values()) {
+      candidates.push(...symbols.filter((s) => getQualifiedName(s) === name && this.isOwner(s, symbols)));
+    }
+    return this.pickOwner(candidates);
+  }
+
+  /**
+   * Find an owner a file declares itself, ignoring its imports and the rest of the workspace.
+   * For code in the file under review, whose own declarations the index holds.
+   */
+  async findLocalOwner(name: string, filePath: string): Promise<SymbolInfo | undefined> {
+    const symbols = await this.index.getSymbols(filePath);
+    return this.pickOwner(
+      symbols.filter((s) => s.scope !== "function" && getQualifiedName(s) === name && this.isOwner(s, symbols))
+    );
+  }
+
+  /**
+   * Find the owner a module exports under a (possibly qualified) name, for code that
+   * isn't in the index, such as a snippet under review. `name` is "default" for default imports.
+   * Returns null for modules outside the workspace, undefined if the name isn't exported.
+   */
+  async findImportedOwner(importPath: string, name: string, fromFile: string): Promise<SymbolInfo | null | undefined> {
+    const importTracker = this.index.getImportTracker();
+    const target = importTracker.resolveImportPath(importPath, fromFile, { resolveAliases: true });
+    if (!target.exists || !target.resolvedPath || !importTracker.isSourceFile(target.resolvedPath)) {
+      return null;
+    }
+    return this.resolveExportedName(target.resolvedPath, name, new Set());
+  }
+
+  /**
+   * List the members of an owner: its own first, then inherited ones that aren't overridden
+   */
+  async getMembers(owner: SymbolInfo): Promise<MemberTable> {
+    const table: MemberTable = { owner, members: [], unresolvedBases: [], indexed: false };
+    await this.collectMembers(owner, table, new Set());
+    return table;
+  }
+
+  /**
+   * Get the constructor signatures of a class, inherited from the nearest base class that
+   * declares a constructor, or the implicit `constructor()` if none does. Returns undefined
+   * when a base class is outside the workspace, since its constructor can't be checked.
+   */
+  async getConstructorSignatures(owner: SymbolInfo): Promise<FunctionSignature[] | undefined> {
+    const visited = new Set<SymbolInfo>();
+
+    for (let current: SymbolInfo | undefined = owner; current; ) {
+      if (current.type !== "class" || visited.has(current)) return undefined;
+      visited.add(current);
+
+      const qualifiedName = getQualifiedName(current);
+      const signatures = this.index
+        .getSignatures(current.filePath)
+        .filter((sig) => sig.isConstructor && sig.parent === qualifiedName);
+      if (signatures.length > 0) return signatures;
+
+      const base = current.extends?.[0];
+      if (!base) {
+        return [
+          {
+            name: owner.name,
+            parent: qualifiedName,
+            parameters: [],
+            filePath: current.filePath,
+            line: current.line,
+            isAsync: false,
+            isGenerator: false,
+            isConstructor: true,
+          },
+        ];
+      }
+      current = await this.findOwner(base, current.filePath);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Add the members declared by one class or interface, then walk its heritage clauses
+   */
+  private async collectMembers(type: SymbolInfo, table: MemberTable, visited: Set<string>): Promise<void> {
+    const qualifiedName = getQualifiedName(type);
+    const key = `${type.filePath}\0${qualifiedName}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const inherited = type !== table.owner;
+    table.indexed ||= Boolean(type.indexed);
+    for (const member of await this.index.getSymbols(type.filePath)) {
+      if (member.scope !== "class" || member.parent !== qualifiedName) continue;
+      // Subclasses can't reach `#private` members
+      if (inherited && member.visibility === "#private") continue;
+
+      const overridden = table.members.some(
+        (m) => m.owner !== type && m.member.name === member.name && Boolean(m.member.static) === Boolean(member.static)
+      );
+      if (!overridden) {
+        table.members.push({ member, owner: type, inherited });
+      }
+    }
+
+    for (const base of [...(type.extends || []), ...(type.implements || [])]) {
+      const resolved = await this.findOwner(base, type.filePath);
+      if (resolved) {
+        await this.collectMembers(resolved, table, visited);
+      } else {
+        table.unresolvedBases.push(base);
+      }
+    }
+  }
+
+  /**
+   * Resolve a name as seen from a file, through local declarations, imports and re-exports.
+   * Returns null for names bound to something outside the workspace, undefined if unknown.
+   */
+  private async resolveName(name: string, fromFile: string, visited: Set<string>): Promise<SymbolInfo | null | undefined> {
+    const key = `${fromFile}\0${name}`;
+    if (visited.has(key)) return undefined;
+    visited.add(key);
+
+    const symbols = await this.index.getSymbols(fromFile);
+    const local = this.pickOwner(
+      symbols.filter((s) => s.scope !== "function" && getQualifiedName(s) === name && this.isOwner(s, symbols))
+    );
+    if (local) return local;
+
+    const [head, ...rest] = name.split(".");
+    const importTracker = this.index.getImportTracker();
+
+    for (const imp of this.index.getImports(fromFile)) {
+      for (const specifier of imp.specifiers) {
+        const binding = this.parseSpecifier(specifier);
+        if (!binding || binding.local !== head) continue;
+
+        const target = importTracker.resolveImportPath(imp.path, fromFile, { resolveAliases: true });
+        if (!target.exists || !target.resolvedPath || !importTracker.isSourceFile(target.resolvedPath)) {
+          return null;
+        }
+
+        if (binding.imported === "*") {
+          return rest.length > 0 ? this.resolveExportedName(target.resolvedPath, rest.join("."), visited) : null;
+        }
+
+        // `import X from` and `import { X } from` both record a plain `X`
+        const named = await this.resolveExportedName(target.resolvedPath, [binding.imported, ...rest].join("."), visited);
+        if (named !== undefined || binding.imported !== binding.local) return named;
+        return this.resolveExportedName(target.resolvedPath, ["default", ...rest].join("."), visited);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a name exported by a module, following re-exports to its declaration
+   */
+  private async resolveExportedName(
+    filePath: string,
+    name: string,
+    visited: Set<string>
+  ): Promise<SymbolInfo | null | undefined> {
+    const [head, ...rest] = name.split(".");
+    const importTracker = this.index.getImportTracker();
+    const resolution = importTracker.resolveExport(filePath, head);
+
+    if (!resolution.found || !resolution.filePath || !resolution.export) {
+      return resolution.unverifiable ? null : undefined;
+    }
+
+    const exp = resolution.export;
+
+    // `export * as ns from "./module"`
+    if (exp.source) {
+      const target = importTracker.resolveImportPath(exp.source, resolution.filePath, { resolveAliases: true });
+      if (!target.exists || !target.resolvedPath || !importTracker.isSourceFile(target.resolvedPath)) {
+        return null;
+      }
+      return rest.length > 0 ? this.resolveExportedName(target.resolvedPath, rest.join("."), visited) : null;
+    }
+
+    // `export default class Repo {}` is recorded under its own name, on the same line
+    if (exp.name === "default" && !exp.localName) {
+      const symbols = await this.index.getSymbols(resolution.filePath);
+      const declared = symbols.find((s) => s.scope === "module" && s.line === exp.line && this.isOwner(s, symbols));
+      if (!declared) return undefined;
+      return this.resolveName([declared.name, ...rest].join("."), resolution.filePath, visited);
+    }
+
+    return this.resolveName([exp.localName || head, ...rest].join("."), resolution.filePath, visited);
+  }
+
+  /**
+   * Read an import specifier as recorded by the import tracker (`X`, `X as Y`, `* as ns`)
+   */
+  private parseSpecifier(specifier: string): { imported: string; local: string } | null {
+    if (specifier === "dynamic" || specifier === "require") return null;
+
+    const match = specifier.match(/^(\S+) as (\S+)$/);
+    if (match) {
+      return { imported: match[1], local: match[2] };
+    }
+    return { imported: specifier, local: specifier };
+  }
+
+  /**
+   * Whether a symbol can own members. Plain variables only do when they hold an object
+   * literal, and type aliases when they name an object type.
+   */
+  private isOwner(symbol: SymbolInfo, fileSymbols: SymbolInfo[]): boolean {
+    if (symbol.type === "type" && (symbol.extends || symbol.indexed)) {
+      return true;
+    }
+    if (symbol.type !== "variable" && symbol.type !== "type") {
+      return OWNER_RANK[symbol.type] !== undefined;
+    }
+    const qualifiedName = getQualifiedName(symbol);
+    return fileSymbols.some((s) => s.scope === "class" && s.parent === qualifiedName);
+  }
+
+  /**
+   * Pick the most likely owner among declarations of the same name
+   */
+  private pickOwner(candidates: SymbolInfo[]): SymbolInfo | undefined {
+    return candidates.sort((a, b) => {
+      if (a.exported !== b.exported) return a.exported ? -1 : 1;
+      return OWNER_RANK[a.type]! - OWNER_RANK[b.type]!;
+    })[0];
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * File Overlay - Proposed file contents that stand in for the files on disk, so a
+ * change set can be analyzed before it is written
+ */
+
+import { dirname, sep } from "path";
+
+export class FileOverlay {
+  private files: Map<string, string> = new Map();
+  private directories: Set<string> = new Set();
+
+  /**
+   * Replace the overlaid files (absolute path -> content)
+   */
+  set(files: Map<string, string>): void {
+    this.files = new Map(files);
+    this.directories.clear();
+
+    for (const filePath of this.files.keys()) {
+      // New files can live in directories that don't exist yet
+      for (let dir = dirname(filePath); !this.directories.has(dir); dir = dirname(dir)) {
+        this.directories.add(dir);
+        if (dirname(dir) === dir) break;
+      }
+    }
+  }
+
+  /**
+   * Remove every overlaid file
+   */
+  clear(): void {
+    this.files.clear();
+    this.directories.clear();
+  }
+
+  /**
+   * Whether a file is overlaid
+   */
+  has(filePath: string): boolean {
+    return this.files.has(filePath);
+  }
+
+  /**
+   * Overlaid content of a file, or undefined to read it from disk
+   */
+  read(filePath: string): string | undefined {
+    return this.files.get(filePath);
+  }
+
+  /**
+   * Whether a directory contains an overlaid file
+   */
+  isDirectory(dirPath: string): boolean {
+    return this.directories.has(dirPath.endsWith(sep) ? dirPath.slice(0, -1) : dirPath);
+  }
+
+  /**
+   * Paths of all overlaid files
+   */
+  getPaths(): string[] {
+    return Array.from(this.files.keys());
+  }
+}
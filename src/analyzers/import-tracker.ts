@@ -5,9 +5,14 @@
 // @ts-nocheck - Babel traverse types are complex and cause issues with strict TypeScript
 
 import * as t from "@babel/types";
-import { resolve, dirname, join, relative } from "path";
-import { existsSync } from "fs";
+import { resolve, dirname, join, relative, extname } from "path";
+import { existsSync, readFileSync, statSync } from "fs";
 import { ASTAnalyzer } from "./ast-analyzer.js";
+import { TsconfigLoader } from "./tsconfig-loader.js";
+import { PackageResolver } from "./package-resolver.js";
+import { IndexStore } from "./index-store.js";
+import { FileOverlay } from "./file-overlay.js";
+import { isResolutionConfigFile } from "../utils/workspace-watcher.js";
 import { ImportInfo, ExportInfo, AnalysisError } from "../types/index.js";
 
 export interface ImportResolutionResult {
@@ -15,17 +20,49 @@ export interface ImportResolutionResult {
   exists: boolean;
   alternatives?: string[];
   error?: string;
+  warning?: string;
 }
 
+export type ModuleResolutionMode = "classic" | "node10" | "node16" | "nodenext" | "bundler";
+
+/**
+ * TypeScript's output-extension to source-extension substitutions, in lookup order
+ */
+const EXTENSION_SUBSTITUTIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx", ".d.ts", ".js", ".jsx"],
+  ".jsx": [".tsx", ".d.ts", ".jsx"],
+  ".mjs": [".mts", ".d.mts", ".mjs"],
+  ".cjs": [".cts", ".d.cts", ".cjs"],
+};
+
 export class ImportTracker {
   private analyzer: ASTAnalyzer;
   private exportsCache: Map<string, ExportInfo[]> = new Map();
   private importsCache: Map<string, ImportInfo[]> = new Map();
+  private packageTypeCache: Map<string, string | undefined> = new Map();
   private workspaceRoot: string;
-
-  constructor(workspaceRoot: string) {
-    this.analyzer = new ASTAnalyzer();
+  private tsconfigLoader: TsconfigLoader;
+  private packageResolver: PackageResolver;
+  private moduleResolutionOverride?: ModuleResolutionMode;
+  private indexStore?: IndexStore;
+  private overlay?: FileOverlay;
+
+  constructor(
+    workspaceRoot: string,
+    options?: {
+      moduleResolution?: ModuleResolutionMode;
+      analyzer?: ASTAnalyzer;
+      indexStore?: IndexStore;
+      overlay?: FileOverlay; // Proposed files that resolve as if they were on disk
+    }
+  ) {
+    this.analyzer = options?.analyzer || new ASTAnalyzer();
     this.workspaceRoot = workspaceRoot;
+    this.tsconfigLoader = new TsconfigLoader(workspaceRoot);
+    this.packageResolver = new PackageResolver();
+    this.moduleResolutionOverride = options?.moduleResolution;
+    this.indexStore = options?.indexStore;
+    this.overlay = options?.overlay;
   }
 
   /**
@@ -37,6 +74,13 @@ export class ImportTracker {
       return this.importsCache.get(filePath)!;
     }
 
+    // Then the on-disk index, valid while the file content is unchanged
+    const indexed = this.indexStore?.get(filePath, "imports");
+    if (indexed) {
+      this.importsCache.set(filePath, indexed);
+      return indexed;
+    }
+
     try {
       const ast = this.analyzer.parseFile(filePath);
       const imports: ImportInfo[] = [];
@@ -67,37 +111,19 @@ export class ImportTracker {
           });
         },
 
-        // Dynamic imports
+        // Dynamic imports and require() calls
         CallExpression(path) {
-          if (
-            t.isIdentifier(path.node.callee, { name: "import" }) &&
-            path.node.arguments.length > 0
-          ) {
-            const firstArg = path.node.arguments[0];
-            if (t.isStringLiteral(firstArg)) {
-              imports.push({
-                path: firstArg.value,
-                source: firstArg.value,
-                specifiers: ["dynamic"],
-                isTypeOnly: false,
-                line: path.node.loc?.start.line,
-              });
-            }
-          }
-        },
+          const callee = path.node.callee;
+          const isDynamicImport = t.isImport(callee) || t.isIdentifier(callee, { name: "import" });
+          const isRequire = t.isIdentifier(callee, { name: "require" });
 
-        // require() calls
-        CallExpression(path) {
-          if (
-            t.isIdentifier(path.node.callee, { name: "require" }) &&
-            path.node.arguments.length > 0
-          ) {
+          if ((isDynamicImport || isRequire) && path.node.arguments.length > 0) {
             const firstArg = path.node.arguments[0];
             if (t.isStringLiteral(firstArg)) {
               imports.push({
                 path: firstArg.value,
                 source: firstArg.value,
-                specifiers: ["require"],
+                specifiers: [isDynamicImport ? "dynamic" : "require"],
                 isTypeOnly: false,
                 line: path.node.loc?.start.line,
               });
@@ -107,6 +133,7 @@ export class ImportTracker {
       });
 
       this.importsCache.set(filePath, imports);
+      this.indexStore?.set(filePath, "imports", imports);
       return imports;
     } catch (error) {
       if (error instanceof AnalysisError) {
@@ -128,8 +155,16 @@ export class ImportTracker {
       return this.exportsCache.get(filePath)!;
     }
 
+    // Then the on-disk index, valid while the file content is unchanged
+    const indexed = this.indexStore?.get(filePath, "exports");
+    if (indexed) {
+      this.exportsCache.set(filePath, indexed);
+      return indexed;
+    }
+
     try {
-      const ast = this.analyzer.parseFile(filePath);
+      const analyzer = this.analyzer;
+      const ast = analyzer.parseFile(filePath);
       const exports: ExportInfo[] = [];
 
       this.analyzer["traverse"](ast, {
@@ -142,23 +177,41 @@ export class ImportTracker {
                 type: "function",
                 filePath,
                 line: path.node.declaration.loc?.start.line,
-                signature: this.analyzer["generateFunctionSignature"](path.node.declaration),
+                signature: analyzer["generateFunctionSignature"](path.node.declaration),
               });
+            } else if (t.isTSDeclareFunction(path.node.declaration) && path.node.declaration.id) {
+              // Overloads declare the same export more than once
+              const name = path.node.declaration.id.name;
+              if (!exports.some((e) => e.name === name && !e.source)) {
+                exports.push({
+                  name,
+                  type: "function",
+                  filePath,
+                  line: path.node.declaration.loc?.start.line,
+                  signature: analyzer["generateFunctionSignature"](path.node.declaration),
+                });
+              }
             } else if (t.isClassDeclaration(path.node.declaration) && path.node.declaration.id) {
               exports.push({
                 name: path.node.declaration.id.name,
                 type: "class",
                 filePath,
                 line: path.node.declaration.loc?.start.line,
+                signature: analyzer["generateClassSignature"](path.node.declaration),
               });
             } else if (t.isVariableDeclaration(path.node.declaration)) {
               path.node.declaration.declarations.forEach((declaration) => {
                 if (t.isIdentifier(declaration.id)) {
+                  const init = analyzer["unwrapExpression"](declaration.init);
+                  const isFunction = t.isArrowFunctionExpression(init) || t.isFunctionExpression(init);
                   exports.push({
                     name: declaration.id.name,
-                    type: "variable",
+                    type: isFunction ? "function" : "variable",
                     filePath,
                     line: declaration.loc?.start.line,
+                    signature: isFunction
+                      ? analyzer["generateFunctionSignature"](init, declaration.id.name)
+                      : undefined,
                   });
                 }
               });
@@ -168,6 +221,7 @@ export class ImportTracker {
                 type: "type",
                 filePath,
                 line: path.node.declaration.loc?.start.line,
+                signature: analyzer["generateTypeSignature"](path.node.declaration),
               });
             } else if (t.isTSInterfaceDeclaration(path.node.declaration)) {
               exports.push({
@@ -175,18 +229,45 @@ export class ImportTracker {
                 type: "interface",
                 filePath,
                 line: path.node.declaration.loc?.start.line,
+                signature: analyzer["generateTypeSignature"](path.node.declaration),
+              });
+            } else if (
+              (t.isTSEnumDeclaration(path.node.declaration) || t.isTSModuleDeclaration(path.node.declaration)) &&
+              t.isIdentifier(path.node.declaration.id)
+            ) {
+              exports.push({
+                name: path.node.declaration.id.name,
+                type: t.isTSEnumDeclaration(path.node.declaration) ? "enum" : "namespace",
+                filePath,
+                line: path.node.declaration.loc?.start.line,
               });
             }
           }
 
           // Handle export { symbol } from 'module' or export { symbol }
+          const source = path.node.source?.value;
           path.node.specifiers.forEach((specifier) => {
+            const exported = t.isStringLiteral(specifier.exported)
+              ? specifier.exported.value
+              : specifier.exported.name;
+
             if (t.isExportSpecifier(specifier)) {
               exports.push({
-                name: specifier.exported.name,
+                name: exported,
                 type: "variable", // Default to variable, could be refined
                 filePath,
                 line: specifier.loc?.start.line,
+                source,
+                localName: t.isStringLiteral(specifier.local) ? specifier.local.value : specifier.local.name,
+              });
+            } else if (t.isExportNamespaceSpecifier(specifier) || t.isExportDefaultSpecifier(specifier)) {
+              exports.push({
+                name: exported,
+                type: "variable",
+                filePath,
+                line: specifier.loc?.start.line,
+                source,
+                localName: t.isExportNamespaceSpecifier(specifier) ? "*" : "default",
               });
             }
           });
@@ -194,22 +275,24 @@ export class ImportTracker {
 
         // Export default declarations
         ExportDefaultDeclaration(path) {
-          if (t.isFunctionDeclaration(path.node.declaration) && path.node.declaration.id) {
+          if (t.isFunctionDeclaration(path.node.declaration)) {
             exports.push({
               name: "default",
               type: "function",
               filePath,
               line: path.node.declaration.loc?.start.line,
-              signature: this.analyzer["generateFunctionSignature"](path.node.declaration),
+              signature: analyzer["generateFunctionSignature"](path.node.declaration),
             });
-          } else if (t.isClassDeclaration(path.node.declaration) && path.node.declaration.id) {
+          } else if (t.isClassDeclaration(path.node.declaration)) {
             exports.push({
               name: "default",
               type: "class",
               filePath,
-              line: path.node.declaration.loc?.start.line,
+              line: path.node.loc?.start.line,
+              signature: analyzer["generateClassSignature"](path.node.declaration),
             });
-          } else if (t.isIdentifier(path.node.declaration)) {
+          } else {
+            // Identifiers and arbitrary expressions
             exports.push({
               name: "default",
               type: "variable",
@@ -226,13 +309,15 @@ export class ImportTracker {
           exports.push({
             name: "*",
             type: "variable",
-            filePath: source,
+            filePath,
             line: path.node.loc?.start.line,
+            source,
           });
         },
       });
 
       this.exportsCache.set(filePath, exports);
+      this.indexStore?.set(filePath, "exports", exports);
       return exports;
     } catch (error) {
       if (error instanceof AnalysisError) {
@@ -248,82 +333,394 @@ export class ImportTracker {
   /**
    * Resolve an import path to an actual file path
    */
-  resolveImportPath(importPath: string, fromFile: string): ImportResolutionResult {
+  resolveImportPath(
+    importPath: string,
+    fromFile: string,
+    options?: { resolveAliases?: boolean; typeOnly?: boolean }
+  ): ImportResolutionResult {
     // Node.js built-in modules
-    const builtInModules = [
-      "fs", "path", "http", "https", "url", "querystring", "util", "events",
-      "stream", "buffer", "crypto", "os", "cluster", "child_process", "net",
-      "dgram", "dns", "tls", "zlib", "readline", "vm", "process", "assert",
-      "timers", "async_hooks", "worker_threads", "console"
-    ];
-
-    if (builtInModules.includes(importPath) || importPath.startsWith("node:")) {
+    if (this.packageResolver.isBuiltin(importPath)) {
       return {
         resolvedPath: importPath,
         exists: true,
       };
     }
 
-    // External packages (doesn't start with . or /)
+    // Non-relative imports: tsconfig aliases first, then subpath imports and external packages
     if (!importPath.startsWith(".") && !importPath.startsWith("/")) {
+      if (options?.resolveAliases) {
+        const aliasResult = this.resolveAliasImport(importPath, fromFile, options?.typeOnly);
+        if (aliasResult) {
+          return aliasResult;
+        }
+      }
+
+      const result = importPath.startsWith("#")
+        ? this.resolveSubpathImport(importPath, fromFile, options?.typeOnly)
+        : this.resolvePackageImport(importPath, fromFile, options?.typeOnly);
+
+      // An alias left unresolved isn't a missing package; it just wasn't checked
+      if (!result.exists && !options?.resolveAliases) {
+        const alias = this.tsconfigLoader.resolveAlias(importPath, fromFile);
+        if (alias.matched) {
+          return {
+            resolvedPath: importPath,
+            exists: true,
+            warning: `Import path '${importPath}' matches tsconfig paths pattern '${alias.pattern}' and was not verified; set resolveAliases to check the file it maps to`,
+          };
+        }
+      }
+
+      return result;
+    }
+
+    const fromDir = dirname(fromFile);
+    const resolvedPath = resolve(fromDir, importPath);
+    const esmStrict = this.isEsmStrict(fromFile);
+
+    const foundPath = this.resolveFilePath(resolvedPath, !esmStrict);
+    if (foundPath) {
+      return {
+        resolvedPath: foundPath,
+        exists: true,
+      };
+    }
+
+    // ESM under node16/nodenext requires explicit extensions and forbids directory imports
+    if (esmStrict) {
+      const alternatives = this.findExtensionedAlternatives(importPath, resolvedPath);
+      const isDirectory = this.isDirectory(resolvedPath);
+      const moduleResolution = this.getModuleResolution(fromFile);
+
+      return {
+        resolvedPath: null,
+        exists: false,
+        alternatives: alternatives.length > 0 ? alternatives : this.findAlternativePaths(resolvedPath, fromDir),
+        error: isDirectory
+          ? `Directory import '${importPath}' is not supported in ECMAScript modules under '${moduleResolution}' resolution`
+          : alternatives.length > 0
+            ? `Relative import '${importPath}' needs an explicit file extension under '${moduleResolution}' resolution`
+            : `Import path '${importPath}' could not be resolved from ${fromFile}`,
+      };
+    }
+
+    // File not found, try to find alternatives
+    const alternatives = this.findAlternativePaths(resolvedPath, fromDir);
+
+    return {
+      resolvedPath: null,
+      exists: false,
+      alternatives,
+      error: `Import path '${importPath}' could not be resolved from ${fromFile}`,
+    };
+  }
+
+  /**
+   * Resolve a bare specifier against the nearest package.json and node_modules
+   */
+  private resolvePackageImport(importPath: string, fromFile: string, typeOnly?: boolean): ImportResolutionResult {
+    const check = this.packageResolver.checkPackage(importPath, fromFile, { typeOnly });
+
+    // Outside any npm project there is nothing to verify against
+    if (!check.manifestPath && !check.installed) {
       return {
         resolvedPath: importPath,
-        exists: true, // We can't verify external packages
+        exists: true,
       };
     }
 
-    const fromDir = dirname(fromFile);
-    let resolvedPath = resolve(fromDir, importPath);
+    if (!check.declared) {
+      const alternatives = check.suggestions;
+      return {
+        resolvedPath: check.installedPath || null,
+        exists: false,
+        alternatives,
+        error: check.installed
+          ? `Package '${check.packageName}' is installed but not declared in ${check.manifestPath}`
+          : `Package '${check.packageName}' is not declared in ${check.manifestPath || "package.json"} and is not installed` +
+            (alternatives.length > 0 ? ` (did you mean '${alternatives[0]}'?)` : ""),
+      };
+    }
+
+    if (!check.installed) {
+      return {
+        resolvedPath: importPath,
+        exists: true,
+        warning: `Package '${check.packageName}' is declared in ${check.manifestPath} but not installed in node_modules`,
+      };
+    }
+
+    return {
+      resolvedPath: check.installedPath || importPath,
+      exists: true,
+    };
+  }
+
+  /**
+   * Resolve a "#" subpath import through the nearest package.json "imports" field
+   */
+  private resolveSubpathImport(importPath: string, fromFile: string, typeOnly?: boolean): ImportResolutionResult {
+    const match = this.packageResolver.matchSubpathImport(importPath, fromFile);
+
+    // Outside any npm project there is nothing to verify against
+    if (!match.manifestPath) {
+      return {
+        resolvedPath: importPath,
+        exists: true,
+      };
+    }
+
+    if (match.target === undefined) {
+      return {
+        resolvedPath: null,
+        exists: false,
+        error: `Subpath import '${importPath}' is not mapped by the "imports" field of ${match.manifestPath}`,
+      };
+    }
+
+    // Targets outside the package are package specifiers
+    if (!match.target.startsWith("./")) {
+      return this.resolvePackageImport(match.target, fromFile, typeOnly);
+    }
+
+    const targetPath = resolve(dirname(match.manifestPath), match.target);
+    const foundPath = this.resolveFilePath(targetPath, false);
+    if (foundPath) {
+      return {
+        resolvedPath: foundPath,
+        exists: true,
+      };
+    }
+
+    // The mapping is what Node checks; its target may be a build output that doesn't exist yet
+    return {
+      resolvedPath: targetPath,
+      exists: true,
+      warning: `Subpath import '${importPath}' maps to ${relative(this.workspaceRoot, targetPath)}, which does not exist`,
+    };
+  }
+
+  /**
+   * Resolve a non-relative import through tsconfig `paths` and `baseUrl`.
+   * Returns null when the import is not an alias and should be treated as a package.
+   */
+  private resolveAliasImport(importPath: string, fromFile: string, typeOnly?: boolean): ImportResolutionResult | null {
+    const alias = this.tsconfigLoader.resolveAlias(importPath, fromFile);
+
+    for (const candidate of alias.candidates) {
+      const foundPath = this.resolveFilePath(candidate, true);
+      if (foundPath) {
+        return {
+          resolvedPath: foundPath,
+          exists: true,
+        };
+      }
+    }
+
+    // A baseUrl miss may still be a package
+    if (!alias.matched) {
+      return null;
+    }
+
+    // So may a `paths` miss, as tsc falls back to node_modules; otherwise it's a broken alias
+    const check = this.packageResolver.checkPackage(importPath, fromFile, { typeOnly });
+    if (check.installed || check.declared) {
+      return this.resolvePackageImport(importPath, fromFile, typeOnly);
+    }
+
+    const alternatives = alias.candidates.flatMap((candidate) =>
+      this.findAlternativePaths(candidate, dirname(candidate))
+    );
+
+    return {
+      resolvedPath: null,
+      exists: false,
+      alternatives,
+      error: `Import path '${importPath}' matches tsconfig paths pattern '${alias.pattern}' but no file exists at ${alias.candidates.map((c) => relative(this.workspaceRoot, c)).join(", ")}`,
+    };
+  }
+
+  /**
+   * Find the file an absolute specifier path refers to.
+   * Extensionless and directory lookups are only tried when `allowImplicit` is set.
+   */
+  private resolveFilePath(resolvedPath: string, allowImplicit: boolean): string | null {
+    // ".js" specifiers pointing at ".ts" sources (and .mjs/.cjs equivalents)
+    const specifierExt = extname(resolvedPath);
+    const substitutions = EXTENSION_SUBSTITUTIONS[specifierExt];
+    if (substitutions) {
+      const basePath = resolvedPath.slice(0, -specifierExt.length);
+      for (const ext of substitutions) {
+        if (this.isFile(basePath + ext)) {
+          return basePath + ext;
+        }
+      }
+    }
+
+    if (this.isFile(resolvedPath)) {
+      return resolvedPath;
+    }
+
+    if (!allowImplicit) {
+      return null;
+    }
 
     // Try different extensions
-    const extensions = [".ts", ".tsx", ".js", ".jsx", ".mts", ".mjs", ".cjs", ""];
-    let foundPath: string | null = null;
+    const extensions = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mts", ".mjs", ".cjs"];
 
     for (const ext of extensions) {
       const pathWithExt = resolvedPath + ext;
-      if (existsSync(pathWithExt)) {
-        foundPath = pathWithExt;
-        break;
+      if (this.isFile(pathWithExt)) {
+        return pathWithExt;
       }
     }
 
     // Try index files
-    if (!foundPath) {
+    if (this.isDirectory(resolvedPath)) {
       for (const ext of extensions) {
         const indexPath = join(resolvedPath, `index${ext}`);
-        if (existsSync(indexPath)) {
-          foundPath = indexPath;
-          break;
+        if (this.isFile(indexPath)) {
+          return indexPath;
         }
       }
-    }
 
-    // Try package.json exports
-    if (!foundPath) {
-      const packageJsonPath = join(resolvedPath, "package.json");
-      if (existsSync(packageJsonPath)) {
+      // Try package.json exports
+      if (existsSync(join(resolvedPath, "package.json"))) {
         // Could parse package.json and check exports
         // For simplicity, just mark as existing
-        foundPath = resolvedPath;
+        return resolvedPath;
       }
     }
 
-    if (foundPath) {
-      return {
-        resolvedPath: foundPath,
-        exists: true,
-      };
+    return null;
+  }
+
+  /**
+   * Get the module resolution mode of the project owning a file
+   */
+  getModuleResolution(fromFile?: string): ModuleResolutionMode {
+    if (this.moduleResolutionOverride) {
+      return this.moduleResolutionOverride;
     }
 
-    // File not found, try to find alternatives
-    const alternatives = this.findAlternativePaths(resolvedPath, fromDir);
+    const project = fromFile
+      ? this.tsconfigLoader.getProjectForFile(fromFile)
+      : this.tsconfigLoader.getRootProject();
+    const compilerOptions = project?.compilerOptions || {};
+    const moduleResolution = String(compilerOptions.moduleResolution || "").toLowerCase();
+    const module = String(compilerOptions.module || "").toLowerCase();
 
-    return {
-      resolvedPath: null,
-      exists: false,
-      alternatives,
-      error: `Import path '${importPath}' could not be resolved from ${fromFile}`,
+    if (moduleResolution === "node" || moduleResolution === "node10") return "node10";
+    if (["classic", "node16", "nodenext", "bundler"].includes(moduleResolution)) {
+      return moduleResolution as ModuleResolutionMode;
+    }
+    if (module === "node16" || module === "nodenext") {
+      return module as ModuleResolutionMode;
+    }
+
+    return "node10";
+  }
+
+  /**
+   * Whether relative imports from a file follow strict ESM rules
+   * (explicit extensions, no directory imports)
+   */
+  private isEsmStrict(fromFile: string): boolean {
+    const moduleResolution = this.getModuleResolution(fromFile);
+    if (moduleResolution !== "node16" && moduleResolution !== "nodenext") {
+      return false;
+    }
+
+    const ext = extname(fromFile);
+    if (ext === ".mts" || ext === ".mjs") return true;
+    if (ext === ".cts" || ext === ".cjs") return false;
+
+    return this.getPackageType(dirname(fromFile)) === "module";
+  }
+
+  /**
+   * Find the "type" field of the nearest package.json
+   */
+  private getPackageType(dir: string): string | undefined {
+    if (this.packageTypeCache.has(dir)) {
+      return this.packageTypeCache.get(dir);
+    }
+
+    let type: string | undefined;
+    const packageJsonPath = join(dir, "package.json");
+
+    if (existsSync(packageJsonPath)) {
+      try {
+        type = JSON.parse(readFileSync(packageJsonPath, "utf-8")).type;
+      } catch (error) {
+        type = undefined;
+      }
+    } else if (dirname(dir) !== dir) {
+      type = this.getPackageType(dirname(dir));
+    }
+
+    this.packageTypeCache.set(dir, type);
+    return type;
+  }
+
+  /**
+   * Suggest the specifiers tsc would accept for an extensionless or directory import
+   */
+  private findExtensionedAlternatives(importPath: string, resolvedPath: string): string[] {
+    const alternatives: string[] = [];
+    const outputExtensions: Record<string, string> = {
+      ".ts": ".js",
+      ".tsx": ".js",
+      ".d.ts": ".js",
+      ".js": ".js",
+      ".jsx": ".js",
+      ".mts": ".mjs",
+      ".mjs": ".mjs",
+      ".cts": ".cjs",
+      ".cjs": ".cjs",
     };
+
+    for (const [sourceExt, outputExt] of Object.entries(outputExtensions)) {
+      if (this.isFile(resolvedPath + sourceExt)) {
+        alternatives.push(importPath + outputExt);
+        break;
+      }
+    }
+
+    if (this.isDirectory(resolvedPath)) {
+      for (const [sourceExt, outputExt] of Object.entries(outputExtensions)) {
+        if (this.isFile(join(resolvedPath, `index${sourceExt}`))) {
+          alternatives.push(`${importPath.replace(/\/$/, "")}/index${outputExt}`);
+          break;
+        }
+      }
+    }
+
+    return alternatives;
+  }
+
+  /**
+   * Check whether a path is an existing file
+   */
+  private isFile(path: string): boolean {
+    if (this.overlay?.has(path)) return true;
+    try {
+      return statSync(path).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a path is an existing directory
+   */
+  private isDirectory(path: string): boolean {
+    if (this.overlay?.isDirectory(path)) return true;
+    try {
+      return statSync(path).isDirectory();
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
@@ -392,11 +789,113 @@ export class ImportTracker {
   }
 
   /**
-   * Check if a specific export exists in a file
+   * Check if a specific export exists in a file (following re-exports)
    */
   exportExists(filePath: string, exportName: string): boolean {
-    const exports = this.extractExports(filePath);
-    return exports.some((exp) => exp.name === exportName);
+    return this.resolveExport(filePath, exportName).found;
+  }
+
+  /**
+   * Find where an export of a file is declared, following `export *` and
+   * `export { x } from` chains through barrel files
+   */
+  resolveExport(
+    filePath: string,
+    exportName: string,
+    visited: Set<string> = new Set()
+  ): { found: boolean; filePath?: string; export?: ExportInfo; unverifiable?: boolean } {
+    const key = `${filePath}\0${exportName}`;
+    if (visited.has(key)) {
+      return { found: false };
+    }
+    visited.add(key);
+
+    let exports: ExportInfo[];
+    try {
+      exports = this.extractExports(filePath);
+    } catch (error) {
+      return { found: false, unverifiable: true };
+    }
+
+    // Local declaration or named re-export
+    const direct = exports.find((exp) => exp.name === exportName);
+    if (direct) {
+      if (!direct.source || direct.localName === "*") {
+        return { found: true, filePath, export: direct };
+      }
+
+      const target = this.resolveImportPath(direct.source, filePath, { resolveAliases: true });
+      if (!target.exists || !target.resolvedPath || !this.isSourceFile(target.resolvedPath)) {
+        // Re-exports from packages can't be followed here
+        return { found: target.exists, filePath, export: direct, unverifiable: true };
+      }
+      return this.resolveExport(target.resolvedPath, direct.localName || exportName, visited);
+    }
+
+    // `export *` never re-exports the default export
+    if (exportName === "default") {
+      return { found: false };
+    }
+
+    let unverifiable = false;
+    for (const exp of exports.filter((e) => e.name === "*" && e.source)) {
+      const target = this.resolveImportPath(exp.source!, filePath, { resolveAliases: true });
+      if (!target.exists || !target.resolvedPath || !this.isSourceFile(target.resolvedPath)) {
+        unverifiable = unverifiable || target.exists;
+        continue;
+      }
+
+      const result = this.resolveExport(target.resolvedPath, exportName, visited);
+      if (result.found) {
+        return result;
+      }
+      unverifiable = unverifiable || Boolean(result.unverifiable);
+    }
+
+    return { found: false, unverifiable };
+  }
+
+  /**
+   * List every name a file exports, expanding `export *` re-exports
+   */
+  getAvailableExports(filePath: string, visited: Set<string> = new Set()): string[] {
+    if (visited.has(filePath)) {
+      return [];
+    }
+    visited.add(filePath);
+
+    let exports: ExportInfo[];
+    try {
+      exports = this.extractExports(filePath);
+    } catch (error) {
+      return [];
+    }
+
+    const names = new Set<string>();
+    for (const exp of exports) {
+      if (exp.name !== "*") {
+        names.add(exp.name);
+        continue;
+      }
+
+      const target = exp.source
+        ? this.resolveImportPath(exp.source, filePath, { resolveAliases: true })
+        : null;
+      if (target?.exists && target.resolvedPath && this.isSourceFile(target.resolvedPath)) {
+        for (const name of this.getAvailableExports(target.resolvedPath, visited)) {
+          if (name !== "default") names.add(name);
+        }
+      }
+    }
+
+    return Array.from(names);
+  }
+
+  /**
+   * Whether a resolved path is a JavaScript/TypeScript file we can parse for exports
+   */
+  isSourceFile(filePath: string): boolean {
+    return /\.(?:[cm]?[jt]sx?)$/.test(filePath) && this.isFile(filePath);
   }
 
   /**
@@ -412,12 +911,31 @@ export class ImportTracker {
     return null;
   }
 
+  /**
+   * Drop cached data for a changed or deleted file
+   */
+  invalidate(filePath: string): void {
+    this.exportsCache.delete(filePath);
+    this.importsCache.delete(filePath);
+    this.analyzer.invalidate(filePath);
+
+    // Config changes can change how every import resolves
+    if (isResolutionConfigFile(filePath)) {
+      this.packageTypeCache.clear();
+      this.tsconfigLoader.clearCache();
+      this.packageResolver.clearCache();
+    }
+  }
+
   /**
    * Clear caches
    */
   clearCache(): void {
     this.exportsCache.clear();
     this.importsCache.clear();
+    this.packageTypeCache.clear();
+    this.tsconfigLoader.clearCache();
+    this.packageResolver.clearCache();
     this.analyzer.clearCache();
   }
 
@@ -0,0 +1,278 @@
+/**
+ * Index Store - Persistent on-disk index of per-file analysis results, keyed by content hash
+ */
+
+import { createHash } from "crypto";
+import { join, relative, resolve } from "path";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { FileOverlay } from "./file-overlay.js";
+import { ExportInfo, FunctionSignature, ImportInfo, SymbolInfo } from "../types/index.js";
+
+/**
+ * Bump whenever the shape of indexed data changes so stale indexes are discarded
+ */
+export const INDEX_VERSION = 12;
+
+export const DEFAULT_CACHE_DIR = ".epistemic-cache";
+
+export interface IndexedFileData {
+  symbols?: SymbolInfo[];
+  exports?: ExportInfo[];
+  imports?: ImportInfo[];
+  signatures?: FunctionSignature[];
+}
+
+export interface IndexEntry extends IndexedFileData {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+}
+
+interface IndexFile {
+  version: number;
+  workspaceRoot: string;
+  files: Record<string, IndexEntry>;
+}
+
+export class IndexStore {
+  private workspaceRoot: string;
+  private indexPath: string;
+  private entries: Map<string, IndexEntry> = new Map();
+  private overlayEntries: Map<string, IndexEntry> = new Map(); // Never written to disk
+  private overlay?: FileOverlay;
+  private persistent: boolean;
+  private loaded: boolean = false;
+  private dirty: boolean = false;
+  private saveTimer?: NodeJS.Timeout;
+
+  /**
+   * Without `persistent`, the store only keeps per-file records in memory.
+   * Records for files in the overlay are kept apart from the disk index.
+   */
+  constructor(workspaceRoot: string, options?: { cacheDir?: string; persistent?: boolean; overlay?: FileOverlay }) {
+    this.workspaceRoot = workspaceRoot;
+    this.indexPath = join(resolve(workspaceRoot, options?.cacheDir || DEFAULT_CACHE_DIR), "index.json");
+    this.persistent = options?.persistent !== false;
+    this.overlay = options?.overlay;
+  }
+
+  /**
+   * Get indexed data for a file if the file is unchanged since it was indexed
+   */
+  get<K extends keyof IndexedFileData>(filePath: string, field: K): IndexedFileData[K] | undefined {
+    const entry = this.getCurrentEntry(filePath);
+    return entry?.[field];
+  }
+
+  /**
+   * Record analysis results for the current content of a file
+   */
+  set<K extends keyof IndexedFileData>(filePath: string, field: K, value: IndexedFileData[K]): void {
+    const entry = this.getCurrentEntry(filePath);
+    if (!entry) return;
+
+    (entry as IndexedFileData)[field] = value;
+    this.dirty = true;
+    this.scheduleSave();
+  }
+
+  /**
+   * Whether every kind of record is indexed for the current content of a file
+   */
+  isComplete(filePath: string): boolean {
+    const entry = this.getCurrentEntry(filePath);
+    return Boolean(entry?.symbols && entry.exports && entry.imports && entry.signatures);
+  }
+
+  /**
+   * Record all analysis results for a file at once
+   */
+  setAll(filePath: string, data: IndexedFileData): void {
+    const entry = this.getCurrentEntry(filePath);
+    if (!entry) return;
+
+    Object.assign(entry, data);
+    this.dirty = true;
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop a file from the index
+   */
+  delete(filePath: string): void {
+    this.ensureLoaded();
+    if (this.entries.delete(this.toKey(filePath))) {
+      this.dirty = true;
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Discard the whole index, in memory and on disk
+   */
+  clear(): void {
+    this.entries.clear();
+    this.overlayEntries.clear();
+    this.loaded = true;
+    this.dirty = false;
+    if (existsSync(this.indexPath)) {
+      rmSync(this.indexPath, { force: true });
+    }
+  }
+
+  /**
+   * Write the index to disk if it changed
+   */
+  save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.persistent || !this.dirty) return;
+
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      workspaceRoot: this.workspaceRoot,
+      files: Object.fromEntries(this.entries),
+    };
+
+    try {
+      mkdirSync(join(this.indexPath, ".."), { recursive: true });
+      // Write then rename so a crash never leaves a truncated index behind
+      const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(data));
+      renameSync(tempPath, this.indexPath);
+      this.dirty = false;
+    } catch (error) {
+      // The index is only an optimization; keep serving from memory
+    }
+  }
+
+  /**
+   * Number of files in the index
+   */
+  getSize(): number {
+    this.ensureLoaded();
+    return this.entries.size;
+  }
+
+  /**
+   * Path of the index file on disk
+   */
+  getIndexPath(): string {
+    return this.indexPath;
+  }
+
+  /**
+   * Hash file contents
+   */
+  static hashContent(content: string | Buffer): string {
+    return createHash("sha1").update(content).digest("hex");
+  }
+
+  /**
+   * Get the entry for a file, resetting it when the file's content changed.
+   * Size and mtime short-circuit the content hash for untouched files.
+   */
+  private getCurrentEntry(filePath: string): IndexEntry | undefined {
+    const overlaid = this.overlay?.read(filePath);
+    if (overlaid !== undefined) {
+      return this.getOverlayEntry(filePath, overlaid);
+    }
+    this.overlayEntries.delete(filePath);
+
+    this.ensureLoaded();
+
+    const key = this.toKey(filePath);
+    let stats;
+    try {
+      stats = statSync(filePath);
+    } catch (error) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.mtimeMs === stats.mtimeMs && entry.size === stats.size) {
+      return entry;
+    }
+
+    let hash: string;
+    try {
+      hash = IndexStore.hashContent(readFileSync(filePath));
+    } catch (error) {
+      return undefined;
+    }
+
+    if (entry && entry.hash === hash) {
+      entry.mtimeMs = stats.mtimeMs;
+      entry.size = stats.size;
+      this.dirty = true;
+      return entry;
+    }
+
+    const fresh: IndexEntry = { hash, mtimeMs: stats.mtimeMs, size: stats.size };
+    this.entries.set(key, fresh);
+    this.dirty = true;
+    return fresh;
+  }
+
+  /**
+   * Get the entry for the overlaid content of a file
+   */
+  private getOverlayEntry(filePath: string, content: string): IndexEntry {
+    const hash = IndexStore.hashContent(content);
+    let entry = this.overlayEntries.get(filePath);
+    if (!entry || entry.hash !== hash) {
+      entry = { hash, mtimeMs: 0, size: content.length };
+      this.overlayEntries.set(filePath, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Load the index from disk, discarding it if it's from another version or workspace
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!this.persistent || !existsSync(this.indexPath)) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.indexPath, "utf-8")) as IndexFile;
+      if (data.version !== INDEX_VERSION || data.workspaceRoot !== this.workspaceRoot) {
+        this.dirty = true;
+        return;
+      }
+
+      for (const [key, entry] of Object.entries(data.files || {})) {
+        this.entries.set(key, entry);
+      }
+    } catch (error) {
+      // Corrupt index: start over
+      this.entries.clear();
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Debounce writes so bulk indexing produces a single save
+   */
+  private scheduleSave(): void {
+    if (!this.persistent || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, 1000);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Index keys are workspace-relative so they read the same on every machine
+   */
+  private toKey(filePath: string): string {
+    return relative(this.workspaceRoot, resolve(filePath));
+  }
+}
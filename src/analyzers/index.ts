@@ -3,9 +3,35 @@
  */
 
 export { ASTAnalyzer } from "./ast-analyzer.js";
-export { ImportTracker, type ImportResolutionResult } from "./import-tracker.js";
+export {
+  ImportTracker,
+  type ImportResolutionResult,
+  type ModuleResolutionMode,
+} from "./import-tracker.js";
+export { PackageResolver, type PackageCheckResult, type PackageManifest } from "./package-resolver.js";
+export { PackageExportsIndex, type PackageExports } from "./package-exports.js";
+export {
+  IndexStore,
+  INDEX_VERSION,
+  DEFAULT_CACHE_DIR,
+  type IndexEntry,
+  type IndexedFileData,
+} from "./index-store.js";
+export { parseJSDoc, getLeadingJSDoc, findParamDrift } from "./jsdoc-parser.js";
+export { TsconfigLoader, type TsconfigProject, type AliasResolution } from "./tsconfig-loader.js";
 export {
   SignatureValidator,
   type SignatureMatchResult,
   type APIValidationResult,
 } from "./signature-validator.js";
+export { ParseWorkerPool, defaultWorkerCount } from "./worker-pool.js";
+export { FileOverlay } from "./file-overlay.js";
+export { WorkspaceIndex } from "./workspace-index.js";
+export {
+  ClassHierarchy,
+  getQualifiedName,
+  type ResolvedMember,
+  type MemberTable,
+} from "./class-hierarchy.js";
+export { MemberAccessValidator, type MemberAccessIssue } from "./member-validator.js";
+export { ProgramTypeChecker, type TypeDiagnostic } from "./type-checker.js";
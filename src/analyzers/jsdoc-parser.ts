@@ -0,0 +1,150 @@
+/**
+ * JSDoc Parser - Read the leading JSDoc comment of a declaration
+ */
+
+import * as t from "@babel/types";
+import { FunctionSignature, JSDocInfo } from "../types/index.js";
+
+/**
+ * Get the JSDoc block closest to a declaration. Candidates go from the declaration
+ * outwards, since comments attach to the outermost statement (`export const ...`).
+ */
+export function getLeadingJSDoc(...nodes: Array<t.Node | null | undefined>): JSDocInfo | undefined {
+  for (const node of nodes) {
+    const comment = node?.leadingComments
+      ?.filter((c) => c.type === "CommentBlock" && c.value.startsWith("*"))
+      .pop();
+    if (comment) {
+      return parseJSDoc(comment.value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse the body of a JSDoc comment, without its delimiters
+ */
+export function parseJSDoc(text: string): JSDocInfo {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\*+ ?/, "").trimEnd());
+
+  const info: JSDocInfo = {};
+  const description: string[] = [];
+  const tags: string[] = [];
+
+  // Tag text continues on following lines until the next tag
+  for (const line of lines) {
+    if (/^\s*@\w+/.test(line)) {
+      tags.push(line.trim());
+    } else if (tags.length > 0) {
+      tags[tags.length - 1] += `\n${line}`;
+    } else {
+      description.push(line);
+    }
+  }
+
+  const summary = description.join("\n").trim();
+  if (summary) info.description = summary;
+
+  for (const tag of tags) {
+    const match = tag.match(/^@(\w+)\s*([\s\S]*)$/);
+    if (!match) continue;
+    const [, name, body] = match;
+
+    switch (name) {
+      case "param":
+      case "arg":
+      case "argument": {
+        const { type, rest } = readType(body);
+        const param = readParamName(rest);
+        if (param) {
+          info.params = info.params || [];
+          info.params.push({ ...param, type });
+        }
+        break;
+      }
+      case "returns":
+      case "return": {
+        const { type, rest } = readType(body);
+        info.returns = { type, description: rest.trim() || undefined };
+        break;
+      }
+      case "deprecated":
+        info.deprecated = true;
+        if (body.trim()) info.deprecationMessage = body.trim();
+        break;
+      case "internal":
+        info.internal = true;
+        break;
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Find `@param` tags that no longer match the parameters of a function
+ */
+export function findParamDrift(signature: FunctionSignature): string[] {
+  const documented = (signature.jsdoc?.params || []).filter((p) => !p.name.includes("."));
+  if (documented.length === 0) return [];
+
+  const problems: string[] = [];
+  const parameters = signature.parameters;
+
+  documented.forEach((doc, i) => {
+    const matches = parameters.some((p) => p.name === doc.name);
+    // Destructured parameters have no name of their own; they're documented by position
+    const destructured = parameters[i]?.properties !== undefined && !parameters[i]?.rest;
+    if (!matches && !destructured) {
+      problems.push(`@param '${doc.name}' of '${signature.name}' does not match any parameter`);
+    }
+  });
+
+  parameters.forEach((param, i) => {
+    if (param.properties !== undefined && !param.rest) {
+      if (i >= documented.length) {
+        problems.push(`Parameter ${i + 1} of '${signature.name}' is not documented`);
+      }
+    } else if (!documented.some((doc) => doc.name === param.name)) {
+      problems.push(`Parameter '${param.name}' of '${signature.name}' is not documented`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Read a leading `{Type}`, allowing nested braces
+ */
+function readType(body: string): { type?: string; rest: string } {
+  const trimmed = body.trimStart();
+  if (!trimmed.startsWith("{")) {
+    return { rest: trimmed };
+  }
+
+  let depth = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === "{") depth++;
+    if (trimmed[i] === "}") depth--;
+    if (depth === 0) {
+      return { type: trimmed.slice(1, i).trim(), rest: trimmed.slice(i + 1) };
+    }
+  }
+  return { rest: trimmed };
+}
+
+/**
+ * Read `name`, `[name]` or `[name=default]` and the description after it
+ */
+function readParamName(text: string): { name: string; optional?: boolean; description?: string } | null {
+  const match = text.trim().match(/^(\[([^\]=]+)(?:=[^\]]*)?\]|[\w$.]+)\s*(?:-\s*)?([\s\S]*)$/);
+  if (!match) return null;
+
+  const optional = match[1].startsWith("[");
+  const name = (optional ? match[2] : match[1]).trim();
+  const description = match[3].trim();
+
+  return { name, optional: optional || undefined, description: description || undefined };
+}
@@ -0,0 +1,761 @@
+/**
+ * Member Access Validator - Check `obj.member`, `obj.method(args)`, `new Class(args)` and
+ * object literals typed with an interface in code under review against the class and
+ * interface model of the workspace
+ */
+
+import * as t from "@babel/types";
+import type { NodePath, Scope } from "@babel/traverse";
+import { WorkspaceIndex } from "./workspace-index.js";
+import { ClassHierarchy, MemberTable, getQualifiedName } from "./class-hierarchy.js";
+import { findClosestMatches } from "../utils/similarity.js";
+import { findClosestSignature, formatSignature, getArity } from "../utils/signatures.js";
+import { SymbolInfo } from "../types/index.js";
+
+/**
+ * Members every object inherits from Object.prototype
+ */
+const OBJECT_MEMBERS = new Set([
+  "constructor",
+  "toString",
+  "toLocaleString",
+  "valueOf",
+  "hasOwnProperty",
+  "isPrototypeOf",
+  "propertyIsEnumerable",
+]);
+
+/**
+ * Members every class has as a function
+ */
+const FUNCTION_MEMBERS = new Set(["name", "length", "prototype", "call", "apply", "bind", "toString"]);
+
+/**
+ * Type keywords a literal can be checked against without a type checker
+ */
+const PRIMITIVE_TYPES = new Set(["string", "number", "boolean", "bigint", "symbol", "object", "null", "undefined", "any", "unknown"]);
+
+export interface MemberAccessIssue {
+  kind:
+    | "missing-member"
+    | "inaccessible-member"
+    | "argument-count"
+    | "unknown-property"
+    | "missing-property"
+    | "property-type";
+  receiver: string; // As written: "repo", "UserRepo" or "new UserRepo()"; for object literals, the variable they initialize
+  receiverType: string; // Qualified name of the class, interface, enum, namespace or object
+  member: string;
+  message: string;
+  suggestion?: string;
+  expectedSignature?: string;
+  actualSignature?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * A type name as written in the snippet, and the import it comes from (if any)
+ */
+interface TypeReference {
+  name: string;
+  source?: string; // Module specifier of the import that binds the name
+  imported?: string; // Name in that module, qualified for `ns.Type` ("default" for default imports)
+  local?: boolean; // Declared at the top level of the reviewed file itself
+}
+
+/**
+ * What a receiver expression holds, as far as the snippet shows
+ */
+interface Receiver {
+  text: string;
+  type: TypeReference;
+  isStatic: boolean; // The class, namespace or object itself rather than an instance
+}
+
+/**
+ * The class an access is written in, which decides whether it may use private and protected members
+ */
+interface EnclosingClass {
+  name?: string; // Undefined for anonymous class expressions
+  superClass?: TypeReference;
+}
+
+interface MemberAccess {
+  receiver: Receiver;
+  member: string;
+  args?: string[]; // Source text of the arguments, for calls
+  hasSpread: boolean;
+  enclosingClass?: EnclosingClass;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * An object literal annotated with a type (`const config: Config = { ... }`) or checked with `satisfies`
+ */
+interface TypedObjectLiteral {
+  text: string; // The variable it initializes, or "object literal"
+  type: TypeReference;
+  node: t.ObjectExpression;
+}
+
+/**
+ * A literal value as a type: its kind, and the literal type it has where there is one
+ */
+interface LiteralValue {
+  kind: "string" | "number" | "boolean" | "bigint" | "null" | "undefined" | "object" | "array" | "function";
+  literal?: string; // `"fast"`, `5`, `true`
+}
+
+/**
+ * A `new Class(args)` expression, reported as a call to the member "constructor"
+ */
+interface Construction {
+  name: string;
+  type: TypeReference;
+  args: string[];
+  hasSpread: boolean;
+  line?: number;
+  column?: number;
+}
+
+export class MemberAccessValidator {
+  private index: WorkspaceIndex;
+  private hierarchy: ClassHierarchy;
+
+  constructor(index: WorkspaceIndex, hierarchy?: ClassHierarchy) {
+    this.index = index;
+    this.hierarchy = hierarchy || new ClassHierarchy(index);
+  }
+
+  /**
+   * Validate the member accesses, method calls and typed object literals in a snippet.
+   * Imports resolve relative to `filePath`, which doesn't have to exist.
+   */
+  async validate(code: string, filePath: string): Promise<MemberAccessIssue[]> {
+    const analyzer = this.index.getAnalyzer();
+    let accesses: MemberAccess[];
+    let constructions: Construction[];
+    let literals: TypedObjectLiteral[];
+
+    try {
+      ({ accesses, constructions, literals } = this.collectAccesses(analyzer.parse(code, filePath), code));
+    } catch (error) {
+      // Fragments that don't parse can't be checked
+      return [];
+    } finally {
+      analyzer.invalidate(filePath);
+    }
+
+    const issues: MemberAccessIssue[] = [];
+    const owners = new Map<string, SymbolInfo | null | undefined>();
+    const tables = new Map<SymbolInfo, MemberTable>();
+
+    const resolve = async (type: TypeReference) => {
+      const typeKey = `${type.local ? "\0" : type.source ?? ""}\0${type.imported ?? type.name}`;
+      if (!owners.has(typeKey)) {
+        owners.set(typeKey, await this.resolveType(type, filePath));
+      }
+      return owners.get(typeKey);
+    };
+    const getMembers = async (owner: SymbolInfo) => {
+      if (!tables.has(owner)) {
+        tables.set(owner, await this.hierarchy.getMembers(owner));
+      }
+      return tables.get(owner)!;
+    };
+
+    for (const access of accesses) {
+      const { receiver } = access;
+
+      const owner = await resolve(receiver.type);
+      if (!owner || !this.canCheck(owner, receiver)) continue;
+
+      const table = await getMembers(owner);
+      // A base outside the workspace, or an index signature, may declare any member
+      if (table.unresolvedBases.length > 0 || table.indexed) continue;
+
+      const issue = this.checkAccess(access, table) ?? (await this.checkVisibility(access, table, resolve));
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+
+    for (const construction of constructions) {
+      const owner = await resolve(construction.type);
+      if (owner?.type !== "class" || construction.hasSpread) continue;
+
+      const issue = await this.checkConstruction(construction, owner);
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+
+    for (const literal of literals) {
+      const owner = await resolve(literal.type);
+      if (owner) {
+        issues.push(...(await this.checkObjectLiteral(literal.node, literal.text, owner, code, getMembers)));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check the properties of an object literal against the interface or object type it is
+   * declared with: unknown properties, missing required ones, and literal values of the
+   * wrong type. Object literals nested in properties typed with an interface are checked too.
+   */
+  private async checkObjectLiteral(
+    node: t.ObjectExpression,
+    text: string,
+    owner: SymbolInfo,
+    code: string,
+    getMembers: (owner: SymbolInfo) => Promise<MemberTable>
+  ): Promise<MemberAccessIssue[]> {
+    if (owner.type !== "interface" && owner.type !== "type") return [];
+
+    const table = await getMembers(owner);
+    if (table.unresolvedBases.length > 0) return [];
+
+    const receiverType = getQualifiedName(owner);
+    const members = table.members.filter((m) => !m.member.static);
+    const issues: MemberAccessIssue[] = [];
+    const written = new Set(node.properties.map((property) => this.getPropertyName(property)));
+    // Spread properties and computed keys may provide any property
+    const complete = !written.has(undefined);
+
+    for (const property of node.properties) {
+      const name = this.getPropertyName(property);
+      if (name === undefined) continue;
+
+      // Spread elements have no name, so this is a property or method
+      const { key } = property as t.ObjectProperty | t.ObjectMethod;
+      const base = {
+        receiver: text,
+        receiverType,
+        member: name,
+        line: key.loc?.start.line,
+        column: key.loc?.start.column,
+      };
+      const found = members.find((m) => m.member.name === name);
+
+      if (!found) {
+        if (table.indexed) continue;
+        const closest = findClosestMatches(
+          name,
+          members.map((m) => m.member.name).filter((member) => !written.has(member)),
+          { threshold: 0.5, limit: 1 }
+        )[0];
+        issues.push({
+          ...base,
+          kind: "unknown-property",
+          message: `Property '${name}' does not exist in type '${receiverType}'`,
+          suggestion: closest ? `Did you mean '${closest}'?` : undefined,
+        });
+        continue;
+      }
+
+      if (!t.isObjectProperty(property) || found.member.type !== "property" || !found.member.typeAnnotation) continue;
+      const expected = found.member.typeAnnotation;
+      const value = property.value;
+
+      if (t.isObjectExpression(value) && /^[\w$.]+$/.test(expected)) {
+        const nested = await this.hierarchy.findOwner(expected, found.member.filePath);
+        if (nested) {
+          issues.push(...(await this.checkObjectLiteral(value, `${text}.${name}`, nested, code, getMembers)));
+        }
+        continue;
+      }
+
+      const literal = this.getLiteralValue(value);
+      const alternatives = this.getPrimitiveAlternatives(expected);
+      if (!literal || !alternatives) continue;
+
+      const accepted = alternatives.some(
+        (alternative) =>
+          alternative === "any" ||
+          alternative === "unknown" ||
+          alternative === literal.kind ||
+          alternative === literal.literal ||
+          (alternative === "object" && ["object", "array", "function"].includes(literal.kind))
+      );
+      if (!accepted && !(literal.kind === "undefined" && found.member.optional)) {
+        issues.push({
+          ...base,
+          kind: "property-type",
+          message: `Property '${name}' of '${receiverType}' expects ${expected}, got ${code.slice(value.start, value.end)}`,
+          expectedSignature: found.member.signature,
+        });
+      }
+    }
+
+    if (complete) {
+      for (const { member, owner: declaredBy } of members) {
+        if (member.optional || written.has(member.name)) continue;
+        // Required members come from interfaces and object types; accessors and class members aren't written in literals
+        if (declaredBy.type !== "interface" && declaredBy.type !== "type") continue;
+        if (member.type !== "property" && member.type !== "function") continue;
+
+        issues.push({
+          kind: "missing-property",
+          receiver: text,
+          receiverType,
+          member: member.name,
+          line: node.loc?.start.line,
+          column: node.loc?.start.column,
+          message: `Property '${member.name}' is missing in ${text === "object literal" ? text : `'${text}'`} but required in type '${receiverType}'`,
+          expectedSignature: member.signature,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Key of a property in an object literal, or undefined for spreads and computed keys
+   */
+  private getPropertyName(property: t.ObjectExpression["properties"][number]): string | undefined {
+    if (t.isSpreadElement(property) || property.computed) return undefined;
+    if (t.isIdentifier(property.key)) return property.key.name;
+    if (t.isStringLiteral(property.key) || t.isNumericLiteral(property.key)) return String(property.key.value);
+    return undefined;
+  }
+
+  /**
+   * Type of a literal expression, or undefined for anything that needs a type checker
+   */
+  private getLiteralValue(node: t.Node): LiteralValue | undefined {
+    if (t.isStringLiteral(node)) return { kind: "string", literal: JSON.stringify(node.value) };
+    if (t.isTemplateLiteral(node)) {
+      return { kind: "string", literal: node.expressions.length === 0 ? JSON.stringify(node.quasis[0].value.cooked) : undefined };
+    }
+    if (t.isNumericLiteral(node)) return { kind: "number", literal: String(node.value) };
+    if (t.isUnaryExpression(node, { operator: "-" }) && t.isNumericLiteral(node.argument)) {
+      return { kind: "number", literal: String(-node.argument.value) };
+    }
+    if (t.isBooleanLiteral(node)) return { kind: "boolean", literal: String(node.value) };
+    if (t.isBigIntLiteral(node)) return { kind: "bigint", literal: `${node.value}n` };
+    if (t.isNullLiteral(node)) return { kind: "null" };
+    if (t.isIdentifier(node, { name: "undefined" })) return { kind: "undefined" };
+    if (t.isObjectExpression(node)) return { kind: "object" };
+    if (t.isArrayExpression(node)) return { kind: "array" };
+    if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) return { kind: "function" };
+    return undefined;
+  }
+
+  /**
+   * Split a declared type into union members if all are type keywords or literal types
+   * (`string`, `"fast" | "safe"`, `number | null`). Type references, enums and generics
+   * could stand for anything, so those types aren't split.
+   */
+  private getPrimitiveAlternatives(type: string): string[] | undefined {
+    const alternatives = type.split("|").map((alternative) => alternative.trim());
+    const checkable = alternatives.every(
+      (alternative) => PRIMITIVE_TYPES.has(alternative) || /^("[^"]*"|-?\d[\d.e]*n?|true|false)$/.test(alternative)
+    );
+    return checkable ? alternatives : undefined;
+  }
+
+  /**
+   * Check the arguments of `new Class(args)` against the class's (possibly inherited) constructor
+   */
+  private async checkConstruction(construction: Construction, owner: SymbolInfo): Promise<MemberAccessIssue | null> {
+    const signatures = await this.hierarchy.getConstructorSignatures(owner);
+    if (!signatures || signatures.length === 0) {
+      return null;
+    }
+
+    const count = construction.args.length;
+    // Report against the overload closest to the call
+    const closest = findClosestSignature(signatures, count)!;
+    const { min, max } = getArity(closest);
+    if (count >= min && count <= max) {
+      return null;
+    }
+
+    const receiverType = getQualifiedName(owner);
+    const tooMany = count > max;
+    const inherited = closest.parent !== receiverType ? ` (inherited from '${closest.parent}')` : "";
+
+    return {
+      kind: "argument-count",
+      receiver: construction.name,
+      receiverType,
+      member: "constructor",
+      line: construction.line,
+      column: construction.column,
+      message: tooMany
+        ? `The constructor of '${construction.name}'${inherited} expects at most ${max} arguments, got ${count}`
+        : `The constructor of '${construction.name}'${inherited} expects at least ${min} arguments, got ${count}`,
+      expectedSignature: formatSignature({ ...closest, name: construction.name }),
+      actualSignature: `new ${construction.name}(${construction.args.join(", ")})`,
+    };
+  }
+
+  /**
+   * Check one access against the members of its receiver's type
+   */
+  private checkAccess(access: MemberAccess, table: MemberTable): MemberAccessIssue | null {
+    const { receiver, member } = access;
+    const owner = table.owner;
+    const receiverType = getQualifiedName(owner);
+    const base = { receiver: receiver.text, receiverType, member, line: access.line, column: access.column };
+    const on = receiver.text === receiverType ? `'${receiverType}'` : `'${receiver.text}' (${receiverType})`;
+
+    if (owner.type === "class" && (receiver.isStatic ? FUNCTION_MEMBERS : OBJECT_MEMBERS).has(member)) {
+      return null;
+    }
+
+    // Only classes separate static members from instance members
+    const candidates = table.members.filter(
+      (m) => owner.type !== "class" || Boolean(m.member.static) === receiver.isStatic
+    );
+    const found = candidates.find((m) => m.member.name === member);
+
+    if (!found) {
+      const elsewhere = table.members.find((m) => m.member.name === member);
+      if (elsewhere) {
+        return {
+          ...base,
+          kind: "missing-member",
+          message: receiver.isStatic
+            ? `'${member}' is an instance member of '${receiverType}', not a static one`
+            : `'${member}' is a static member of '${receiverType}', not an instance one`,
+          suggestion: receiver.isStatic ? undefined : `Use '${receiverType}.${member}'`,
+        };
+      }
+
+      const closest = findClosestMatches(
+        member,
+        candidates.map((m) => m.member.name),
+        { threshold: 0.5, limit: 1 }
+      )[0];
+      return {
+        ...base,
+        kind: "missing-member",
+        message:
+          owner.type === "enum"
+            ? `'${member}' is not a member of enum '${receiverType}'`
+            : `Property '${member}' does not exist on ${on}`,
+        suggestion: closest ? `Did you mean '${receiver.text}.${closest}'?` : undefined,
+      };
+    }
+
+    if (!access.args || access.hasSpread || found.member.type !== "function") {
+      return null;
+    }
+
+    const signatures = this.index
+      .getSignatures(found.member.filePath)
+      .filter((sig) => sig.name === member && sig.parent === getQualifiedName(found.owner));
+    // With overloads, any signature the call fits is a match; otherwise report the closest
+    const closest = findClosestSignature(signatures, access.args.length);
+    if (!closest) {
+      return null;
+    }
+    const { min, max } = getArity(closest);
+    if (access.args.length >= min && access.args.length <= max) {
+      return null;
+    }
+
+    return {
+      ...base,
+      kind: "argument-count",
+      message:
+        access.args.length < min
+          ? `'${receiverType}.${member}' expects at least ${min} arguments, got ${access.args.length}`
+          : `'${receiverType}.${member}' expects at most ${max} arguments, got ${access.args.length}`,
+      expectedSignature: formatSignature(closest),
+      actualSignature: `${receiver.text}.${member}(${access.args.join(", ")})`,
+    };
+  }
+
+  /**
+   * Check that a private member is only used inside its class, and a protected one inside
+   * its class or a subclass
+   */
+  private async checkVisibility(
+    access: MemberAccess,
+    table: MemberTable,
+    resolve: (type: TypeReference) => Promise<SymbolInfo | null | undefined>
+  ): Promise<MemberAccessIssue | null> {
+    const { receiver, member, enclosingClass } = access;
+    const found = table.members.find(
+      (m) => m.member.name === member && (table.owner.type !== "class" || Boolean(m.member.static) === receiver.isStatic)
+    );
+    const visibility = found?.member.visibility;
+    if (!found || (visibility !== "private" && visibility !== "protected")) {
+      return null;
+    }
+
+    const declaringClass = getQualifiedName(found.owner);
+    if (enclosingClass?.name === declaringClass) {
+      return null;
+    }
+    if (visibility === "protected" && enclosingClass?.superClass) {
+      // Walk the enclosing class's bases up to the declaring class; a base that can't be
+      // resolved (a package, or a class the index doesn't hold) may extend it too
+      const visited = new Set<SymbolInfo>();
+      let base = await resolve(enclosingClass.superClass);
+      while (!visited.has(base!)) {
+        if (!base || base === found.owner) return null;
+        visited.add(base);
+        if (!base.extends?.[0]) break;
+        base = await this.hierarchy.findOwner(base.extends[0], base.filePath);
+      }
+    }
+
+    return {
+      kind: "inaccessible-member",
+      receiver: receiver.text,
+      receiverType: getQualifiedName(table.owner),
+      member,
+      line: access.line,
+      column: access.column,
+      message:
+        visibility === "private"
+          ? `'${member}' is private and only accessible within class '${declaringClass}'`
+          : `'${member}' is protected and only accessible within class '${declaringClass}' and its subclasses`,
+    };
+  }
+
+  /**
+   * Whether a receiver can be checked against an owner: instances of classes, interfaces
+   * and object types, and classes, enums, namespaces and object literals referenced directly
+   */
+  private canCheck(owner: SymbolInfo, receiver: Receiver): boolean {
+    if (!receiver.isStatic) {
+      return owner.type === "class" || owner.type === "interface" || owner.type === "type";
+    }
+    // Objects are only trusted when imported or `as const`; a free name could be anything
+    return (
+      owner.type === "class" ||
+      owner.type === "enum" ||
+      owner.type === "namespace" ||
+      (owner.type === "variable" && (receiver.type.source !== undefined || Boolean(owner.readonly)))
+    );
+  }
+
+  /**
+   * Find the declaration a type reference names
+   */
+  private async resolveType(type: TypeReference, filePath: string): Promise<SymbolInfo | null | undefined> {
+    if (type.source !== undefined) {
+      return this.hierarchy.findImportedOwner(type.source, type.imported!, filePath);
+    }
+    if (type.local) {
+      return this.hierarchy.findLocalOwner(type.name, filePath);
+    }
+    return this.hierarchy.findOwner(type.name);
+  }
+
+  /**
+   * Collect the member accesses whose receivers have a known type, the classes constructed,
+   * and the object literals declared with a type
+   */
+  private collectAccesses(
+    ast: t.File,
+    code: string
+  ): { accesses: MemberAccess[]; constructions: Construction[]; literals: TypedObjectLiteral[] } {
+    const accesses: MemberAccess[] = [];
+    const constructions: Construction[] = [];
+    const literals: TypedObjectLiteral[] = [];
+    // Babel calls visitors with its own `this`
+    const validator = this;
+
+    const visit = (path: NodePath<t.MemberExpression | t.OptionalMemberExpression>) => {
+      const node = path.node;
+      if (node.computed || !t.isIdentifier(node.property)) return;
+      // Assigning adds a property (expando objects), it doesn't use one
+      if (t.isAssignmentExpression(path.parent) && path.parent.left === node) return;
+
+      const receiver = validator.getReceiver(path.get("object"));
+      if (!receiver) return;
+
+      const call = path.parent;
+      const isCall = (t.isCallExpression(call) || t.isOptionalCallExpression(call)) && call.callee === node;
+
+      accesses.push({
+        receiver,
+        member: node.property.name,
+        args: isCall ? call.arguments.map((arg) => code.slice(arg.start, arg.end)) : undefined,
+        hasSpread: isCall && call.arguments.some((arg) => t.isSpreadElement(arg)),
+        enclosingClass: validator.getEnclosingClass(path),
+        line: node.property.loc?.start.line,
+        column: node.property.loc?.start.column,
+      });
+    };
+
+    this.index.getAnalyzer().traverse(ast, {
+      MemberExpression: visit,
+      OptionalMemberExpression: visit,
+
+      NewExpression(path: NodePath<t.NewExpression>) {
+        const name = validator.getEntityName(path.node.callee);
+        const type = name ? validator.getTypeReference(name, path.scope) : undefined;
+        if (!type) return;
+
+        constructions.push({
+          name,
+          type,
+          args: path.node.arguments.map((arg) => code.slice(arg.start, arg.end)),
+          hasSpread: path.node.arguments.some((arg) => t.isSpreadElement(arg)),
+          line: path.node.loc?.start.line,
+          column: path.node.loc?.start.column,
+        });
+      },
+
+      // `const config: Config = { ... }`
+      VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+        const { id, init } = path.node;
+        const annotation = t.isIdentifier(id) && t.isTSTypeAnnotation(id.typeAnnotation) ? id.typeAnnotation.typeAnnotation : undefined;
+        const object = t.isParenthesizedExpression(init) ? init.expression : init;
+        if (!t.isTSTypeReference(annotation) || !t.isObjectExpression(object)) return;
+
+        const name = validator.getEntityName(annotation.typeName);
+        const type = name ? validator.getTypeReference(name, path.scope) : undefined;
+        if (type) {
+          literals.push({ text: (id as t.Identifier).name, type, node: object });
+        }
+      },
+
+      // `{ ... } satisfies Config`
+      TSSatisfiesExpression(path: NodePath<t.TSSatisfiesExpression>) {
+        const { expression, typeAnnotation } = path.node;
+        if (!t.isTSTypeReference(typeAnnotation) || !t.isObjectExpression(expression)) return;
+
+        const name = validator.getEntityName(typeAnnotation.typeName);
+        const type = name ? validator.getTypeReference(name, path.scope) : undefined;
+        if (type) {
+          const declarator = path.parent;
+          const text = t.isVariableDeclarator(declarator) && t.isIdentifier(declarator.id) ? declarator.id.name : "object literal";
+          literals.push({ text, type, node: expression });
+        }
+      },
+    });
+
+    return { accesses, constructions, literals };
+  }
+
+  /**
+   * Work out what a receiver holds: `new Repo()`, a variable annotated or initialized
+   * with a class, a typed parameter, or an imported (or global) class, namespace or object
+   */
+  private getReceiver(path: NodePath): Receiver | undefined {
+    const node = path.node;
+
+    if (t.isNewExpression(node)) {
+      const name = this.getEntityName(node.callee);
+      const type = name ? this.getTypeReference(name, path.scope) : undefined;
+      return type ? { text: `new ${name}()`, type, isStatic: false } : undefined;
+    }
+
+    if (!t.isIdentifier(node)) return undefined;
+
+    const binding = path.scope.getBinding(node.name);
+    if (!binding) {
+      // Not declared in the snippet: a class or namespace of the workspace, used by name
+      return { text: node.name, type: { name: node.name }, isStatic: true };
+    }
+    if (!binding.constant) return undefined;
+
+    const declaration = binding.path.node;
+    if (
+      t.isImportDeclaration(binding.path.parent) ||
+      t.isClassDeclaration(declaration) ||
+      t.isTSEnumDeclaration(declaration) ||
+      t.isTSModuleDeclaration(declaration)
+    ) {
+      // `ns.member` on namespace imports is checked against the module's exports instead
+      if (t.isImportNamespaceSpecifier(declaration)) return undefined;
+      const type = this.getTypeReference(node.name, path.scope);
+      return type ? { text: node.name, type, isStatic: true } : undefined;
+    }
+
+    let annotation: t.Node | null | undefined;
+    if (t.isVariableDeclarator(binding.path.node)) {
+      const declarator = binding.path.node;
+      annotation = (declarator.id as t.Identifier).typeAnnotation;
+
+      if (!annotation && t.isNewExpression(declarator.init)) {
+        const name = this.getEntityName(declarator.init.callee);
+        const type = name ? this.getTypeReference(name, binding.path.scope) : undefined;
+        return type ? { text: node.name, type, isStatic: false } : undefined;
+      }
+    } else if (binding.kind === "param") {
+      const param = t.isAssignmentPattern(binding.path.node) ? binding.path.node.left : binding.path.node;
+      annotation = t.isIdentifier(param) ? param.typeAnnotation : undefined;
+    }
+
+    const typeNode = t.isTSTypeAnnotation(annotation) ? annotation.typeAnnotation : undefined;
+    if (!t.isTSTypeReference(typeNode)) return undefined;
+
+    const type = this.getTypeReference(this.getEntityName(typeNode.typeName)!, binding.path.scope);
+    return type ? { text: node.name, type, isStatic: false } : undefined;
+  }
+
+  /**
+   * Find the class an expression is written in, and the base class it extends
+   */
+  private getEnclosingClass(path: NodePath): EnclosingClass | undefined {
+    const classPath = path.findParent((parent) => parent.isClass()) as NodePath<t.Class> | null;
+    if (!classPath) return undefined;
+
+    const { id, superClass } = classPath.node;
+    const superName = superClass ? this.getEntityName(superClass) : undefined;
+    return {
+      name: id?.name,
+      // Resolved from outside the class, where its own name isn't bound to it
+      superClass: superName ? this.getTypeReference(superName, classPath.scope.parent) : undefined,
+    };
+  }
+
+  /**
+   * Resolve a (possibly qualified) type or class name through the snippet's imports.
+   * Top-level declarations are looked up among the file's own indexed symbols, which
+   * holds them when the code is reviewed in place; other local names aren't checked.
+   */
+  private getTypeReference(name: string, scope: Scope): TypeReference | undefined {
+    const [head, ...rest] = name.split(".");
+    const binding = scope.getBinding(head);
+    if (!binding) {
+      return { name };
+    }
+    // `import type` bindings aren't of kind "module", so go by the declaration
+    if (!t.isImportDeclaration(binding.path.parent)) {
+      return binding.scope.path.isProgram() && binding.kind !== "param" ? { name, local: true } : undefined;
+    }
+
+    const source = binding.path.parent.source.value;
+    const specifier = binding.path.node as t.ImportDeclaration["specifiers"][number];
+
+    if (t.isImportNamespaceSpecifier(specifier)) {
+      return rest.length > 0 ? { name, source, imported: rest.join(".") } : undefined;
+    }
+    const imported = t.isImportDefaultSpecifier(specifier)
+      ? "default"
+      : t.isStringLiteral(specifier.imported)
+        ? specifier.imported.value
+        : specifier.imported.name;
+    return { name, source, imported: [imported, ...rest].join(".") };
+  }
+
+  /**
+   * Name of `Repo` or `ns.Repo`, as written
+   */
+  private getEntityName(node: t.Node): string | undefined {
+    if (t.isIdentifier(node)) return node.name;
+    if (t.isTSQualifiedName(node)) {
+      const left = this.getEntityName(node.left);
+      return left ? `${left}.${node.right.name}` : undefined;
+    }
+    if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+      const object = this.getEntityName(node.object);
+      return object ? `${object}.${node.property.name}` : undefined;
+    }
+    return undefined;
+  }
+}
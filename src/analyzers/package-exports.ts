@@ -0,0 +1,517 @@
+/**
+ * Package Exports Index - Read exported names of installed packages from their declaration files
+ */
+
+import * as parser from "@babel/parser";
+import * as t from "@babel/types";
+import { dirname, join, resolve } from "path";
+import { existsSync, readFileSync, statSync } from "fs";
+import { PackageManifest, PackageResolver } from "./package-resolver.js";
+
+export interface PackageExports {
+  specifier: string;
+  typesPath: string;
+  exports: Set<string>;
+  /** False when some exports could not be enumerated (e.g. `export = someExpression`) */
+  complete: boolean;
+}
+
+interface ExportCollection {
+  exports: Set<string>;
+  complete: boolean;
+}
+
+/**
+ * Declaration extensions to try for a JavaScript specifier, in lookup order
+ */
+const DECLARATION_SUBSTITUTIONS: Record<string, string[]> = {
+  ".js": [".d.ts"],
+  ".mjs": [".d.mts"],
+  ".cjs": [".d.cts"],
+  ".ts": [""],
+  ".mts": [""],
+  ".cts": [""],
+};
+
+export class PackageExportsIndex {
+  private packageResolver: PackageResolver;
+  private fileExportsCache: Map<string, ExportCollection> = new Map();
+  // Files a re-export cycle led back to; what depends on them isn't final until they are
+  private cycleTargets: Set<string> = new Set();
+  private ambientModuleCache: Map<string, PackageExports | null> = new Map();
+
+  constructor(packageResolver?: PackageResolver) {
+    this.packageResolver = packageResolver || new PackageResolver();
+  }
+
+  /**
+   * Get the exported names of a package (or package subpath) as seen from a directory
+   */
+  getPackageExports(specifier: string, fromDir: string): PackageExports | null {
+    const bare = specifier.startsWith("node:") ? specifier.slice(5) : specifier;
+
+    if (this.packageResolver.isBuiltin(specifier)) {
+      return this.getAmbientModuleExports(bare, fromDir);
+    }
+
+    const packageName = this.packageResolver.getPackageName(bare);
+    const subpath = bare.slice(packageName.length).replace(/^\//, "");
+
+    const packageDir = this.packageResolver.findInstalledPackage(packageName, fromDir);
+    const typesPath = packageDir ? this.findTypesEntry(packageDir, subpath) : null;
+
+    if (typesPath) {
+      return {
+        specifier,
+        typesPath,
+        ...this.getFileExports(typesPath, new Set()),
+      };
+    }
+
+    // Fall back to DefinitelyTyped
+    const typesName = packageName.startsWith("@")
+      ? `@types/${packageName.slice(1).replace("/", "__")}`
+      : `@types/${packageName}`;
+    const typesDir = this.packageResolver.findInstalledPackage(typesName, fromDir);
+    const definitelyTypedPath = typesDir ? this.findTypesEntry(typesDir, subpath) : null;
+
+    if (definitelyTypedPath) {
+      return {
+        specifier,
+        typesPath: definitelyTypedPath,
+        ...this.getFileExports(definitelyTypedPath, new Set()),
+      };
+    }
+
+    // Some packages only ship ambient `declare module "x"` blocks
+    return this.getAmbientModuleExports(bare, fromDir);
+  }
+
+  /**
+   * Clear cached declaration data
+   */
+  clearCache(): void {
+    this.fileExportsCache.clear();
+    this.cycleTargets.clear();
+    this.ambientModuleCache.clear();
+  }
+
+  /**
+   * Find the declaration entry point of a package directory for a subpath
+   */
+  private findTypesEntry(packageDir: string, subpath: string): string | null {
+    const pkg: Partial<PackageManifest> = this.packageResolver.readManifest(packageDir) || {};
+
+    // Conditional "exports" take precedence when present
+    if (pkg.exports) {
+      const typesTarget = this.pickTypesCondition(this.matchExportsKey(pkg.exports, subpath));
+      if (typesTarget) {
+        const found = this.findDeclarationFile(resolve(packageDir, typesTarget));
+        if (found) return found;
+      }
+    }
+
+    if (subpath) {
+      return this.findDeclarationFile(resolve(packageDir, subpath));
+    }
+
+    for (const field of [pkg.types, pkg.main, "index"]) {
+      if (typeof field === "string") {
+        const found = this.findDeclarationFile(resolve(packageDir, field));
+        if (found) return found;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the "exports" target for a subpath, including "./*" patterns
+   */
+  private matchExportsKey(exportsField: unknown, subpath: string): unknown {
+    const key = subpath ? `./${subpath}` : ".";
+
+    if (typeof exportsField === "string" || Array.isArray(exportsField)) {
+      return key === "." ? exportsField : undefined;
+    }
+    if (!exportsField || typeof exportsField !== "object") {
+      return undefined;
+    }
+
+    const map = exportsField as Record<string, unknown>;
+    const keys = Object.keys(map);
+
+    // A conditions object without subpath keys applies to "."
+    if (!keys.some((k) => k.startsWith("."))) {
+      return key === "." ? map : undefined;
+    }
+    if (key in map) {
+      return map[key];
+    }
+
+    for (const pattern of keys.filter((k) => k.includes("*")).sort((a, b) => b.length - a.length)) {
+      const [prefix, suffix] = pattern.split("*");
+      if (key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+        const wildcard = key.slice(prefix.length, key.length - suffix.length);
+        return this.substituteWildcard(map[pattern], wildcard);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replace "*" in every string of an exports target
+   */
+  private substituteWildcard(target: unknown, wildcard: string): unknown {
+    if (typeof target === "string") return target.replace(/\*/g, wildcard);
+    if (Array.isArray(target)) return target.map((entry) => this.substituteWildcard(entry, wildcard));
+    if (target && typeof target === "object") {
+      return Object.fromEntries(
+        Object.entries(target).map(([condition, value]) => [condition, this.substituteWildcard(value, wildcard)])
+      );
+    }
+    return target;
+  }
+
+  /**
+   * Pick a declaration path out of a conditional exports target
+   */
+  private pickTypesCondition(target: unknown): string | null {
+    if (typeof target === "string") return target;
+    if (Array.isArray(target)) {
+      for (const entry of target) {
+        const picked = this.pickTypesCondition(entry);
+        if (picked) return picked;
+      }
+      return null;
+    }
+    if (!target || typeof target !== "object") return null;
+
+    for (const condition of ["types", "typings", "import", "node", "require", "default"]) {
+      if (condition in (target as Record<string, unknown>)) {
+        const picked = this.pickTypesCondition((target as Record<string, unknown>)[condition]);
+        if (picked) return picked;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the declaration file for a JavaScript or extensionless path
+   */
+  private findDeclarationFile(basePath: string): string | null {
+    if (/\.d\.[mc]?ts$/.test(basePath) && this.isFile(basePath)) {
+      return basePath;
+    }
+
+    const ext = Object.keys(DECLARATION_SUBSTITUTIONS).find((e) => basePath.endsWith(e));
+    if (ext) {
+      const stem = basePath.slice(0, -ext.length);
+      for (const declarationExt of DECLARATION_SUBSTITUTIONS[ext]) {
+        const candidate = declarationExt ? stem + declarationExt : basePath;
+        if (/\.d\.[mc]?ts$/.test(candidate) && this.isFile(candidate)) return candidate;
+      }
+    }
+
+    for (const candidate of [
+      `${basePath}.d.ts`,
+      `${basePath}.d.mts`,
+      `${basePath}.d.cts`,
+      join(basePath, "index.d.ts"),
+      join(basePath, "index.d.mts"),
+      join(basePath, "index.d.cts"),
+    ]) {
+      if (this.isFile(candidate)) return candidate;
+    }
+
+    return null;
+  }
+
+  /**
+   * Collect exported names of a declaration file, following re-exports
+   */
+  private getFileExports(filePath: string, visiting: Set<string>): ExportCollection {
+    if (this.fileExportsCache.has(filePath)) {
+      return this.fileExportsCache.get(filePath)!;
+    }
+    if (visiting.has(filePath)) {
+      // The file further up the stack adds its own names when it finishes
+      this.cycleTargets.add(filePath);
+      return { exports: new Set(), complete: true };
+    }
+    visiting.add(filePath);
+
+    const collection: ExportCollection = { exports: new Set(), complete: true };
+    const ast = this.parseDeclarationFile(filePath);
+
+    if (ast) {
+      this.collectStatementExports(ast.program.body, filePath, collection, visiting, false);
+    } else {
+      collection.complete = false;
+    }
+
+    visiting.delete(filePath);
+    this.cycleTargets.delete(filePath);
+
+    // Inside a cycle only the file that closes it has every name; the others are recomputed
+    if (![...this.cycleTargets].some((target) => visiting.has(target))) {
+      this.fileExportsCache.set(filePath, collection);
+    }
+    return collection;
+  }
+
+  /**
+   * Collect exported names from a list of top-level or module-block statements
+   */
+  private collectStatementExports(
+    body: t.Statement[],
+    filePath: string,
+    collection: ExportCollection,
+    visiting: Set<string>,
+    implicitExports: boolean
+  ): void {
+    const exports = collection.exports;
+    const hasExplicitExports = body.some(
+      (statement) =>
+        t.isExportNamedDeclaration(statement) ||
+        t.isExportAllDeclaration(statement) ||
+        t.isExportDefaultDeclaration(statement) ||
+        t.isTSExportAssignment(statement)
+    );
+
+    for (const statement of body) {
+      if (t.isExportNamedDeclaration(statement)) {
+        if (statement.declaration) {
+          for (const name of this.getDeclarationNames(statement.declaration)) {
+            exports.add(name);
+          }
+        }
+        for (const specifier of statement.specifiers) {
+          const exported = specifier.exported;
+          exports.add(t.isIdentifier(exported) ? exported.name : exported.value);
+        }
+      } else if (t.isExportAllDeclaration(statement)) {
+        // `export * as ns from` is parsed as a namespace specifier of a named export
+        const reExported = this.getReExportedNames(statement.source.value, filePath, visiting);
+        collection.complete = collection.complete && reExported.complete;
+        for (const name of reExported.exports) {
+          if (name !== "default") exports.add(name);
+        }
+      } else if (t.isExportDefaultDeclaration(statement)) {
+        exports.add("default");
+      } else if (t.isTSExportAssignment(statement)) {
+        // `export = X` exposes the members of X (and X itself as the default import)
+        exports.add("default");
+        const members = t.isIdentifier(statement.expression)
+          ? this.getNamespaceMembers(body, statement.expression.name, filePath, visiting)
+          : new Set<string>();
+        if (members.size === 0) {
+          collection.complete = false;
+        }
+        for (const name of members) {
+          exports.add(name);
+        }
+      } else if (t.isTSImportEqualsDeclaration(statement) && statement.isExport) {
+        exports.add(statement.id.name);
+      } else if (implicitExports && !hasExplicitExports) {
+        // Ambient module blocks without explicit exports export every declaration
+        for (const name of this.getDeclarationNames(statement)) {
+          exports.add(name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the exported names of a re-export source (relative file or another package)
+   */
+  private getReExportedNames(source: string, filePath: string, visiting: Set<string>): ExportCollection {
+    if (source.startsWith(".")) {
+      const target = this.findDeclarationFile(resolve(dirname(filePath), source));
+      return target ? this.getFileExports(target, visiting) : { exports: new Set(), complete: false };
+    }
+
+    const packageExports = this.getPackageExports(source, dirname(filePath));
+    return packageExports || { exports: new Set(), complete: false };
+  }
+
+  /**
+   * Get the members of a namespace, or of a typed const, declared in the same scope (used for `export =`)
+   */
+  private getNamespaceMembers(
+    body: t.Statement[],
+    name: string,
+    filePath: string,
+    visiting: Set<string>
+  ): Set<string> {
+    const collection: ExportCollection = { exports: new Set(), complete: true };
+    const members = collection.exports;
+
+    for (const statement of body) {
+      const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+      if (
+        t.isTSModuleDeclaration(declaration) &&
+        t.isIdentifier(declaration.id) &&
+        declaration.id.name === name &&
+        t.isTSModuleBlock(declaration.body)
+      ) {
+        this.collectStatementExports(declaration.body.body, filePath, collection, visiting, true);
+      }
+
+      // `declare const path: path.PlatformPath; export = path;`
+      if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          const id = declarator.id;
+          const annotation = t.isIdentifier(id, { name }) && t.isTSTypeAnnotation(id.typeAnnotation) ? id.typeAnnotation.typeAnnotation : undefined;
+          if (t.isTSTypeReference(annotation)) {
+            for (const member of this.getInterfaceMembers(body, this.entityNameParts(annotation.typeName))) {
+              members.add(member);
+            }
+          }
+        }
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Get property and method names of an interface, following dotted namespace paths
+   */
+  private getInterfaceMembers(body: t.Statement[], nameParts: string[]): string[] {
+    const [head, ...rest] = nameParts;
+    const members: string[] = [];
+
+    for (const statement of body) {
+      const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+
+      if (rest.length === 0 && t.isTSInterfaceDeclaration(declaration) && declaration.id.name === head) {
+        for (const member of declaration.body.body) {
+          if ((t.isTSPropertySignature(member) || t.isTSMethodSignature(member)) && t.isIdentifier(member.key)) {
+            members.push(member.key.name);
+          }
+        }
+        for (const heritage of declaration.extends || []) {
+          members.push(...this.getInterfaceMembers(body, this.entityNameParts(heritage.expression)));
+        }
+      } else if (
+        rest.length > 0 &&
+        t.isTSModuleDeclaration(declaration) &&
+        t.isIdentifier(declaration.id, { name: head }) &&
+        t.isTSModuleBlock(declaration.body)
+      ) {
+        members.push(...this.getInterfaceMembers(declaration.body.body, rest));
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Split a (possibly qualified) entity name into its parts
+   */
+  private entityNameParts(name: t.Node): string[] {
+    if (t.isIdentifier(name)) return [name.name];
+    if (t.isTSQualifiedName(name)) return [...this.entityNameParts(name.left), name.right.name];
+    return [];
+  }
+
+  /**
+   * Get the names a declaration statement introduces
+   */
+  private getDeclarationNames(declaration: t.Node): string[] {
+    if (
+      (t.isFunctionDeclaration(declaration) ||
+        t.isTSDeclareFunction(declaration) ||
+        t.isClassDeclaration(declaration) ||
+        t.isTSInterfaceDeclaration(declaration) ||
+        t.isTSTypeAliasDeclaration(declaration) ||
+        t.isTSEnumDeclaration(declaration)) &&
+      declaration.id
+    ) {
+      return [declaration.id.name];
+    }
+    if (t.isTSModuleDeclaration(declaration) && t.isIdentifier(declaration.id)) {
+      return [declaration.id.name];
+    }
+    if (t.isVariableDeclaration(declaration)) {
+      return declaration.declarations
+        .filter((d) => t.isIdentifier(d.id))
+        .map((d) => (d.id as t.Identifier).name);
+    }
+    return [];
+  }
+
+  /**
+   * Find the exports of an ambient `declare module "name"` block (e.g. Node.js built-ins in @types/node)
+   */
+  private getAmbientModuleExports(moduleName: string, fromDir: string): PackageExports | null {
+    const cacheKey = `${fromDir}\0${moduleName}`;
+    if (this.ambientModuleCache.has(cacheKey)) {
+      return this.ambientModuleCache.get(cacheKey)!;
+    }
+
+    const candidates: string[] = [];
+    const nodeTypesDir = this.packageResolver.findInstalledPackage("@types/node", fromDir);
+    if (nodeTypesDir) {
+      candidates.push(join(nodeTypesDir, `${moduleName}.d.ts`), join(nodeTypesDir, moduleName, "index.d.ts"));
+    }
+    const typesDir = this.packageResolver.findInstalledPackage(`@types/${moduleName}`, fromDir);
+    if (typesDir) {
+      candidates.push(join(typesDir, "index.d.ts"));
+    }
+
+    for (const candidate of candidates) {
+      if (!this.isFile(candidate)) continue;
+
+      const ast = this.parseDeclarationFile(candidate);
+      if (!ast) continue;
+
+      for (const statement of ast.program.body) {
+        if (
+          t.isTSModuleDeclaration(statement) &&
+          t.isStringLiteral(statement.id) &&
+          (statement.id.value === moduleName || statement.id.value === `node:${moduleName}`) &&
+          t.isTSModuleBlock(statement.body)
+        ) {
+          const collection: ExportCollection = { exports: new Set(), complete: true };
+          this.collectStatementExports(statement.body.body, candidate, collection, new Set([candidate]), true);
+          const result: PackageExports = { specifier: moduleName, typesPath: candidate, ...collection };
+          this.ambientModuleCache.set(cacheKey, result);
+          return result;
+        }
+      }
+    }
+
+    this.ambientModuleCache.set(cacheKey, null);
+    return null;
+  }
+
+  /**
+   * Parse a declaration file, returning null if it cannot be read or parsed
+   */
+  private parseDeclarationFile(filePath: string): t.File | null {
+    try {
+      return parser.parse(readFileSync(filePath, "utf-8"), {
+        sourceType: "module",
+        plugins: [["typescript", { dts: true }]],
+        errorRecovery: true,
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a path is an existing file
+   */
+  private isFile(path: string): boolean {
+    try {
+      return existsSync(path) && statSync(path).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+}
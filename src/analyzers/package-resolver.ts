@@ -0,0 +1,306 @@
+/**
+ * Package Resolver - Check bare import specifiers against package.json and node_modules
+ */
+
+import { dirname, join } from "path";
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { builtinModules } from "module";
+import { findClosestMatches } from "../utils/similarity.js";
+
+export interface PackageManifest {
+  path: string;
+  name?: string;
+  dependencies: Set<string>;
+  imports?: Record<string, unknown>; // "#" subpath imports
+  exports?: unknown; // Conditional "exports", as written
+  types?: string; // "types" or "typings"
+  main?: string;
+}
+
+export interface SubpathImportMatch {
+  manifestPath?: string; // Undefined outside any npm project
+  target?: string; // Path relative to the manifest or a package specifier; undefined when no mapping matches
+}
+
+/**
+ * Conditions tried for a subpath import target, types first since sources are what's checked
+ */
+const IMPORT_CONDITIONS = ["types", "import", "node", "require", "default"];
+
+export interface PackageCheckResult {
+  packageName: string;
+  builtin: boolean;
+  declared: boolean;
+  installed: boolean;
+  installedPath?: string;
+  manifestPath?: string;
+  suggestions: string[];
+}
+
+export class PackageResolver {
+  private manifestCache: Map<string, PackageManifest | null> = new Map();
+  private installedCache: Map<string, string[]> = new Map();
+
+  /**
+   * Check whether a specifier is a Node.js built-in module
+   */
+  isBuiltin(specifier: string): boolean {
+    if (specifier.startsWith("node:")) return true;
+    return builtinModules.includes(specifier) || builtinModules.includes(this.getPackageName(specifier));
+  }
+
+  /**
+   * Get the package name of a bare specifier ("@scope/pkg/sub" -> "@scope/pkg")
+   */
+  getPackageName(specifier: string): string {
+    const parts = specifier.split("/");
+    return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+  }
+
+  /**
+   * Check a bare specifier against the nearest package.json and installed packages
+   */
+  checkPackage(specifier: string, fromFile: string, options?: { typeOnly?: boolean }): PackageCheckResult {
+    const packageName = this.getPackageName(specifier);
+
+    if (this.isBuiltin(specifier)) {
+      return {
+        packageName,
+        builtin: true,
+        declared: true,
+        installed: true,
+        suggestions: [],
+      };
+    }
+
+    const manifest = this.findManifest(dirname(fromFile));
+    const typesName = this.getTypesPackageName(packageName);
+
+    // Self-references resolve through the package's own exports
+    const declared = manifest
+      ? manifest.name === packageName ||
+        manifest.dependencies.has(packageName) ||
+        (options?.typeOnly === true && manifest.dependencies.has(typesName))
+      : false;
+
+    const installedPath =
+      this.findInstalledPackage(packageName, dirname(fromFile)) ||
+      (options?.typeOnly ? this.findInstalledPackage(typesName, dirname(fromFile)) : undefined);
+
+    const result: PackageCheckResult = {
+      packageName,
+      builtin: false,
+      declared,
+      installed: Boolean(installedPath) || manifest?.name === packageName,
+      installedPath,
+      manifestPath: manifest?.path,
+      suggestions: [],
+    };
+
+    if (!declared) {
+      const candidates = [
+        ...(manifest ? manifest.dependencies : []),
+        ...this.listInstalledPackages(dirname(fromFile)),
+      ].filter((name) => !name.startsWith("@types/"));
+      result.suggestions = findClosestMatches(packageName, candidates, { threshold: 0.5, limit: 3 });
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the nearest package.json above a directory
+   */
+  findManifest(dir: string): PackageManifest | null {
+    if (this.manifestCache.has(dir)) {
+      return this.manifestCache.get(dir)!;
+    }
+
+    let manifest: PackageManifest | null = null;
+    const packageJsonPath = join(dir, "package.json");
+
+    if (existsSync(packageJsonPath) && !dir.split(/[\\/]/).includes("node_modules")) {
+      manifest = this.readManifest(dir);
+    } else if (dirname(dir) !== dir) {
+      manifest = this.findManifest(dirname(dir));
+    }
+
+    this.manifestCache.set(dir, manifest);
+    return manifest;
+  }
+
+  /**
+   * Read the package.json of a package directory, or null if it is missing or invalid
+   */
+  readManifest(packageDir: string): PackageManifest | null {
+    const packageJsonPath = join(packageDir, "package.json");
+    try {
+      const pkg = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+      const types = typeof pkg.types === "string" ? pkg.types : pkg.typings;
+      return {
+        path: packageJsonPath,
+        name: pkg.name,
+        dependencies: new Set([
+          ...Object.keys(pkg.dependencies || {}),
+          ...Object.keys(pkg.devDependencies || {}),
+          ...Object.keys(pkg.peerDependencies || {}),
+          ...Object.keys(pkg.optionalDependencies || {}),
+        ]),
+        imports: pkg.imports && typeof pkg.imports === "object" ? pkg.imports : undefined,
+        exports: pkg.exports ?? undefined,
+        types: typeof types === "string" ? types : undefined,
+        main: typeof pkg.main === "string" ? pkg.main : undefined,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Map a "#" subpath import through the "imports" field of the nearest package.json,
+   * matching exact keys first, then "*" patterns from the longest prefix down
+   */
+  matchSubpathImport(specifier: string, fromFile: string): SubpathImportMatch {
+    const manifest = this.findManifest(dirname(fromFile));
+    if (!manifest) {
+      return {};
+    }
+
+    const imports = manifest.imports || {};
+    if (specifier in imports) {
+      return { manifestPath: manifest.path, target: this.pickImportTarget(imports[specifier]) };
+    }
+
+    const patterns = Object.keys(imports)
+      .filter((key) => key.includes("*"))
+      .sort((a, b) => b.indexOf("*") - a.indexOf("*") || b.length - a.length);
+    for (const pattern of patterns) {
+      const [prefix, suffix] = pattern.split("*");
+      if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= pattern.length - 1) {
+        const wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+        return {
+          manifestPath: manifest.path,
+          target: this.pickImportTarget(imports[pattern])?.replace(/\*/g, wildcard),
+        };
+      }
+    }
+
+    return { manifestPath: manifest.path };
+  }
+
+  /**
+   * Find an installed package directory by walking up node_modules folders
+   */
+  findInstalledPackage(packageName: string, fromDir: string): string | undefined {
+    let dir = fromDir;
+
+    while (true) {
+      const candidate = join(dir, "node_modules", packageName);
+      if (existsSync(join(candidate, "package.json"))) {
+        return candidate;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Clear cached manifests and node_modules listings
+   */
+  clearCache(): void {
+    this.manifestCache.clear();
+    this.installedCache.clear();
+  }
+
+  /**
+   * List packages installed in node_modules folders above a directory
+   */
+  private listInstalledPackages(fromDir: string): string[] {
+    if (this.installedCache.has(fromDir)) {
+      return this.installedCache.get(fromDir)!;
+    }
+
+    const names: string[] = [];
+    let dir = fromDir;
+
+    while (true) {
+      const nodeModules = join(dir, "node_modules");
+      if (this.isDirectory(nodeModules)) {
+        for (const entry of this.readDir(nodeModules)) {
+          if (entry.startsWith(".")) continue;
+          if (entry.startsWith("@")) {
+            for (const scoped of this.readDir(join(nodeModules, entry))) {
+              names.push(`${entry}/${scoped}`);
+            }
+          } else {
+            names.push(entry);
+          }
+        }
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+
+    this.installedCache.set(fromDir, names);
+    return names;
+  }
+
+  /**
+   * Pick the target string out of a (possibly conditional) subpath import target
+   */
+  private pickImportTarget(target: unknown): string | undefined {
+    if (typeof target === "string") return target;
+    if (Array.isArray(target)) {
+      for (const entry of target) {
+        const picked = this.pickImportTarget(entry);
+        if (picked) return picked;
+      }
+      return undefined;
+    }
+    if (!target || typeof target !== "object") return undefined;
+
+    for (const condition of IMPORT_CONDITIONS) {
+      if (condition in target) {
+        const picked = this.pickImportTarget((target as Record<string, unknown>)[condition]);
+        if (picked) return picked;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the DefinitelyTyped package name for a package
+   */
+  private getTypesPackageName(packageName: string): string {
+    return packageName.startsWith("@")
+      ? `@types/${packageName.slice(1).replace("/", "__")}`
+      : `@types/${packageName}`;
+  }
+
+  /**
+   * Read a directory, returning no entries on failure
+   */
+  private readDir(dir: string): string[] {
+    try {
+      return readdirSync(dir);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Check whether a path is an existing directory
+   */
+  private isDirectory(path: string): boolean {
+    try {
+      return statSync(path).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+}
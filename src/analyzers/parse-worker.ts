@@ -0,0 +1,50 @@
+/**
+ * Parse Worker - Parses files off the main thread and returns serialisable analysis records
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { ASTAnalyzer } from "./ast-analyzer.js";
+import { ImportTracker } from "./import-tracker.js";
+import { IndexedFileData } from "./index-store.js";
+
+export interface ParseRequest {
+  id: number;
+  filePath: string;
+}
+
+export interface ParseResponse {
+  id: number;
+  data?: IndexedFileData;
+  error?: string;
+}
+
+const analyzer = new ASTAnalyzer();
+const importTracker = new ImportTracker((workerData as { workspacePath: string }).workspacePath, { analyzer });
+
+/**
+ * Extract everything the index stores for a file from a single parse
+ */
+function analyzeFile(filePath: string): IndexedFileData {
+  try {
+    const ast = analyzer.parseFile(filePath);
+    return {
+      symbols: analyzer.extractSymbols(ast, filePath),
+      exports: importTracker.extractExports(filePath),
+      imports: importTracker.extractImports(filePath),
+      signatures: analyzer.extractFunctionSignatures(ast, filePath),
+    };
+  } finally {
+    // Results go back to the main thread; nothing needs to stay cached here
+    importTracker.invalidate(filePath);
+  }
+}
+
+parentPort?.on("message", (request: ParseRequest) => {
+  let response: ParseResponse;
+  try {
+    response = { id: request.id, data: analyzeFile(request.filePath) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response);
+});
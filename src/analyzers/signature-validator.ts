@@ -6,6 +6,11 @@
 
 import * as t from "@babel/types";
 import { ASTAnalyzer } from "./ast-analyzer.js";
+import { PackageExportsIndex } from "./package-exports.js";
+import { IndexStore } from "./index-store.js";
+import { findClosestMatches } from "../utils/similarity.js";
+import { isResolutionConfigFile } from "../utils/workspace-watcher.js";
+import { formatSignature, getArity } from "../utils/signatures.js";
 import { FunctionSignature } from "../types/index.js";
 
 export interface SignatureMatchResult {
@@ -25,10 +30,19 @@ export interface APIValidationResult {
 
 export class SignatureValidator {
   private analyzer: ASTAnalyzer;
+  private packageExports: PackageExportsIndex;
+  private workspaceRoot: string;
+  private indexStore?: IndexStore;
   private signatureCache: Map<string, FunctionSignature[]> = new Map();
 
-  constructor() {
-    this.analyzer = new ASTAnalyzer();
+  constructor(
+    workspaceRoot: string = process.cwd(),
+    options?: { analyzer?: ASTAnalyzer; indexStore?: IndexStore }
+  ) {
+    this.analyzer = options?.analyzer || new ASTAnalyzer();
+    this.packageExports = new PackageExportsIndex();
+    this.workspaceRoot = workspaceRoot;
+    this.indexStore = options?.indexStore;
   }
 
   /**
@@ -49,8 +63,13 @@ export class SignatureValidator {
     }
 
     try {
-      const signatures = this.getSignatures(filePath);
-      const matchingSignature = signatures.find((sig) => sig.name === functionName);
+      const candidates = this.getSignatures(filePath).filter((sig) => sig.name === functionName);
+      // With overloads, any signature the call fits is a match
+      const matchingSignature =
+        candidates.find((sig) => {
+          const { min, max } = getArity(sig);
+          return args.length >= min && args.length <= max;
+        }) || candidates[0];
 
       if (!matchingSignature) {
         return {
@@ -61,16 +80,15 @@ export class SignatureValidator {
         };
       }
 
-      const expectedArgs = matchingSignature.parameters;
       const actualArgsCount = args.length;
-      const expectedMinArgs = expectedArgs.filter((p) => !p.optional).length;
-      const expectedMaxArgs = expectedArgs.length;
+      // Defaults and rest parameters are optional; a rest parameter takes any number of arguments
+      const { min: expectedMinArgs, max: expectedMaxArgs } = getArity(matchingSignature);
 
       // Check argument count
       if (actualArgsCount < expectedMinArgs) {
         return {
           valid: false,
-          expectedSignature: this.formatSignature(matchingSignature),
+          expectedSignature: formatSignature(matchingSignature),
           actualSignature: `${functionName}(${args.join(", ")})`,
           error: `Expected at least ${expectedMinArgs} arguments, got ${actualArgsCount}`,
           confidence: 1,
@@ -80,7 +98,7 @@ export class SignatureValidator {
       if (actualArgsCount > expectedMaxArgs) {
         return {
           valid: false,
-          expectedSignature: this.formatSignature(matchingSignature),
+          expectedSignature: formatSignature(matchingSignature),
           actualSignature: `${functionName}(${args.join(", ")})`,
           error: `Expected at most ${expectedMaxArgs} arguments, got ${actualArgsCount}`,
           confidence: 1,
@@ -89,7 +107,7 @@ export class SignatureValidator {
 
       return {
         valid: true,
-        expectedSignature: this.formatSignature(matchingSignature),
+        expectedSignature: formatSignature(matchingSignature),
         actualSignature: `${functionName}(${args.join(", ")})`,
         confidence: 1,
       };
@@ -115,15 +133,23 @@ export class SignatureValidator {
     const warnings: string[] = [];
     const suggestions: string[] = [];
 
+    // Exports declared by the installed package (or @types/*)
+    const declared = this.packageExports.getPackageExports(library, this.workspaceRoot);
+    const exportResult = this.validatePackageExport(library, api.split(".")[0]);
+    if (exportResult && !exportResult.valid) {
+      return exportResult;
+    }
+
     // Common API definitions
     const commonAPIs = this.getCommonAPIs();
 
     const libraryAPIs = commonAPIs.get(library);
     if (!libraryAPIs) {
       return {
-        valid: true, // Can't validate unknown libraries
+        valid: true,
         errors: [],
-        warnings: [`No API definitions available for library '${library}'`],
+        // Without declarations we can't validate unknown libraries
+        warnings: declared ? [] : [`No API definitions available for library '${library}'`],
         suggestions: [],
       };
     }
@@ -133,7 +159,7 @@ export class SignatureValidator {
       return {
         valid: true, // API not in our definitions
         errors: [],
-        warnings: [`No definition available for '${library}.${api}'`],
+        warnings: declared ? [] : [`No definition available for '${library}.${api}'`],
         suggestions: [],
       };
     }
@@ -160,6 +186,29 @@ export class SignatureValidator {
     };
   }
 
+  /**
+   * Check that a package exports a name, using its declaration files.
+   * Returns null when the package has no (complete) declarations to check against.
+   */
+  validatePackageExport(library: string, exportName: string): APIValidationResult | null {
+    const declared = this.packageExports.getPackageExports(library, this.workspaceRoot);
+    if (!declared || !declared.complete) {
+      return null;
+    }
+
+    if (declared.exports.has(exportName)) {
+      return { valid: true, errors: [], warnings: [], suggestions: [] };
+    }
+
+    const closest = findClosestMatches(exportName, declared.exports, { threshold: 0.5, limit: 3 });
+    return {
+      valid: false,
+      errors: [`'${exportName}' is not exported by '${library}' (checked ${declared.typesPath})`],
+      warnings: [],
+      suggestions: closest.map((name) => `Did you mean '${name}'?`),
+    };
+  }
+
   /**
    * Validate a code snippet for signature mismatches
    */
@@ -208,42 +257,23 @@ export class SignatureValidator {
       return this.signatureCache.get(filePath)!;
     }
 
+    const indexed = this.indexStore?.get(filePath, "signatures");
+    if (indexed) {
+      this.signatureCache.set(filePath, indexed);
+      return indexed;
+    }
+
     try {
       const ast = this.analyzer.parseFile(filePath);
       const signatures = this.analyzer.extractFunctionSignatures(ast, filePath);
       this.signatureCache.set(filePath, signatures);
+      this.indexStore?.set(filePath, "signatures", signatures);
       return signatures;
     } catch (error) {
       return [];
     }
   }
 
-  /**
-   * Format a function signature for display
-   */
-  private formatSignature(signature: FunctionSignature): string {
-    const params = signature.parameters
-      .map((p) => {
-        const name = p.optional ? `${p.name}?` : p.name;
-        return p.type ? `${name}: ${p.type}` : name;
-      })
-      .join(", ");
-
-    let sig = signature.name;
-
-    if (signature.isAsync) {
-      sig = `async ${sig}`;
-    }
-
-    sig = `${sig}(${params})`;
-
-    if (signature.returnType) {
-      sig += `: ${signature.returnType}`;
-    }
-
-    return sig;
-  }
-
   /**
    * Get common API definitions
    * This is a simplified database of common Node.js/browser APIs
@@ -340,11 +370,25 @@ export class SignatureValidator {
     return apis;
   }
 
+  /**
+   * Drop cached signatures for a changed or deleted file
+   */
+  invalidate(filePath: string): void {
+    this.signatureCache.delete(filePath);
+    this.analyzer.invalidate(filePath);
+
+    // Dependency changes can change which declarations a package resolves to
+    if (isResolutionConfigFile(filePath)) {
+      this.packageExports.clearCache();
+    }
+  }
+
   /**
    * Clear the cache
    */
   clearCache(): void {
     this.signatureCache.clear();
+    this.packageExports.clearCache();
     this.analyzer.clearCache();
   }
 
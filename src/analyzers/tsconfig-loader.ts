@@ -0,0 +1,350 @@
+/**
+ * Tsconfig Loader - Load tsconfig.json files with extends chains and project references
+ */
+
+import { resolve, dirname, join, isAbsolute, sep } from "path";
+import { existsSync, readFileSync, statSync } from "fs";
+
+export interface TsconfigProject {
+  configPath: string;
+  rootDir: string;
+  compilerOptions: Record<string, unknown>;
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBasePath?: string; // What `paths` targets resolve against: baseUrl, or the config declaring them
+  pathsConfigDir?: string; // Directory of the config that declares `paths`
+  references: string[];
+}
+
+/**
+ * The parts of a tsconfig.json file the loader reads, narrowed from the parsed JSON
+ */
+interface TsconfigJson {
+  extends: string[];
+  compilerOptions: Record<string, unknown>;
+  references: string[]; // The `path` of each project reference
+}
+
+export interface AliasResolution {
+  matched: boolean;
+  pattern?: string;
+  candidates: string[];
+}
+
+export class TsconfigLoader {
+  private workspaceRoot: string;
+  private projects: Map<string, TsconfigProject> = new Map();
+  private rootConfigPath: string | null = null;
+  private loaded = false;
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * Get the project whose directory most closely contains a file
+   */
+  getProjectForFile(filePath: string): TsconfigProject | undefined {
+    this.ensureLoaded();
+
+    let best: TsconfigProject | undefined;
+    for (const project of this.projects.values()) {
+      const prefix = project.rootDir.endsWith(sep) ? project.rootDir : project.rootDir + sep;
+      if (filePath.startsWith(prefix) && (!best || project.rootDir.length > best.rootDir.length)) {
+        best = project;
+      }
+    }
+
+    return best || this.getRootProject();
+  }
+
+  /**
+   * Get the workspace root project, if a tsconfig.json exists
+   */
+  getRootProject(): TsconfigProject | undefined {
+    this.ensureLoaded();
+    return this.rootConfigPath ? this.projects.get(this.rootConfigPath) : undefined;
+  }
+
+  /**
+   * Get all loaded projects (root and referenced)
+   */
+  getProjects(): TsconfigProject[] {
+    this.ensureLoaded();
+    return Array.from(this.projects.values());
+  }
+
+  /**
+   * Map a non-relative import through `paths` and `baseUrl` of the project owning a file
+   */
+  resolveAlias(importPath: string, fromFile: string): AliasResolution {
+    const project = this.getProjectForFile(fromFile);
+    if (!project) {
+      return { matched: false, candidates: [] };
+    }
+
+    if (project.paths) {
+      const match = this.matchPathsPattern(importPath, Object.keys(project.paths));
+      if (match) {
+        const basePath = project.pathsBasePath || project.rootDir;
+        return {
+          matched: true,
+          pattern: match.pattern,
+          candidates: project.paths[match.pattern].map((target) =>
+            resolve(basePath, target.replace("*", match.wildcard))
+          ),
+        };
+      }
+    }
+
+    if (project.baseUrl) {
+      return {
+        matched: false,
+        candidates: [resolve(project.baseUrl, importPath)],
+      };
+    }
+
+    return { matched: false, candidates: [] };
+  }
+
+  /**
+   * Drop all loaded configs so they are re-read on next use
+   */
+  clearCache(): void {
+    this.projects.clear();
+    this.rootConfigPath = null;
+    this.loaded = false;
+  }
+
+  /**
+   * Load the workspace tsconfig.json and its references on first use
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const rootConfig = join(this.workspaceRoot, "tsconfig.json");
+    if (existsSync(rootConfig)) {
+      this.rootConfigPath = rootConfig;
+      this.loadProject(rootConfig);
+    }
+  }
+
+  /**
+   * Load a project config and, recursively, its project references
+   */
+  private loadProject(configPath: string): void {
+    if (this.projects.has(configPath)) return;
+
+    let project: TsconfigProject;
+    try {
+      project = this.readConfigChain(configPath, new Set());
+    } catch (error) {
+      return;
+    }
+    this.projects.set(configPath, project);
+
+    for (const reference of project.references) {
+      this.loadProject(reference);
+    }
+  }
+
+  /**
+   * Read a config file and merge everything it extends
+   */
+  private readConfigChain(configPath: string, seen: Set<string>): TsconfigProject {
+    if (seen.has(configPath)) {
+      throw new Error(`Circular tsconfig extends: ${configPath}`);
+    }
+    seen.add(configPath);
+
+    const raw = readTsconfigJson(configPath);
+    const configDir = dirname(configPath);
+
+    let project: TsconfigProject = {
+      configPath,
+      rootDir: configDir,
+      compilerOptions: {},
+      references: [],
+    };
+
+    for (const parent of raw.extends) {
+      const parentPath = this.resolveExtends(parent, configDir);
+      if (!parentPath) continue;
+
+      const parentProject = this.readConfigChain(parentPath, seen);
+      project = {
+        ...project,
+        compilerOptions: { ...project.compilerOptions, ...parentProject.compilerOptions },
+        baseUrl: parentProject.baseUrl ?? project.baseUrl,
+        paths: parentProject.paths ?? project.paths,
+        pathsConfigDir: parentProject.paths ? parentProject.pathsConfigDir : project.pathsConfigDir,
+      };
+    }
+
+    const compilerOptions = raw.compilerOptions;
+    project.compilerOptions = { ...project.compilerOptions, ...compilerOptions };
+
+    // baseUrl is relative to the config that declares it; paths resolve against the
+    // effective baseUrl, wherever it was set, and without one against their own config
+    if (typeof compilerOptions.baseUrl === "string") {
+      project.baseUrl = resolve(configDir, compilerOptions.baseUrl);
+    }
+    if (compilerOptions.paths && typeof compilerOptions.paths === "object") {
+      project.paths = compilerOptions.paths as Record<string, string[]>;
+      project.pathsConfigDir = configDir;
+    }
+    if (project.paths) {
+      project.pathsBasePath = project.baseUrl || project.pathsConfigDir;
+    }
+
+    project.references = raw.references
+      .map((reference) => {
+        const refPath = resolve(configDir, reference);
+        return isDirectory(refPath) ? join(refPath, "tsconfig.json") : refPath;
+      })
+      .filter((refPath) => existsSync(refPath));
+
+    return project;
+  }
+
+  /**
+   * Resolve an `extends` value to a config file path (relative file or package)
+   */
+  private resolveExtends(value: string, configDir: string): string | null {
+    const candidates: string[] = [];
+
+    if (value.startsWith(".") || isAbsolute(value)) {
+      const base = resolve(configDir, value);
+      candidates.push(base, `${base}.json`, join(base, "tsconfig.json"));
+    } else {
+      // Package configs are looked up in node_modules directories up the tree
+      let dir = configDir;
+      while (true) {
+        const base = join(dir, "node_modules", value);
+        candidates.push(base, `${base}.json`, join(base, "tsconfig.json"));
+        const parent = dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+      }
+    }
+
+    return candidates.find((candidate) => isFile(candidate)) || null;
+  }
+
+  /**
+   * Find the `paths` pattern that best matches an import (longest prefix wins)
+   */
+  private matchPathsPattern(
+    importPath: string,
+    patterns: string[]
+  ): { pattern: string; wildcard: string } | null {
+    let best: { pattern: string; wildcard: string; prefixLength: number } | null = null;
+
+    for (const pattern of patterns) {
+      const starIndex = pattern.indexOf("*");
+
+      if (starIndex === -1) {
+        if (pattern === importPath) {
+          return { pattern, wildcard: "" };
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+
+      if (
+        importPath.length >= prefix.length + suffix.length &&
+        importPath.startsWith(prefix) &&
+        importPath.endsWith(suffix) &&
+        (!best || prefix.length > best.prefixLength)
+      ) {
+        best = {
+          pattern,
+          wildcard: importPath.slice(prefix.length, importPath.length - suffix.length),
+          prefixLength: prefix.length,
+        };
+      }
+    }
+
+    return best ? { pattern: best.pattern, wildcard: best.wildcard } : null;
+  }
+}
+
+/**
+ * Parse a JSON file that may contain comments and trailing commas
+ */
+export function readJsonc(filePath: string): unknown {
+  const text = readFileSync(filePath, "utf-8");
+  let result = "";
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += next ?? "";
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && next === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && next === "*") {
+      i += 2;
+      while (i < text.length && !(text[i] === "*" && text[i + 1] === "/")) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+/**
+ * Read a tsconfig.json file, dropping fields of the wrong type
+ */
+function readTsconfigJson(filePath: string): TsconfigJson {
+  const raw = readJsonc(filePath);
+  const config = isRecord(raw) ? raw : {};
+
+  const parents = Array.isArray(config.extends) ? config.extends : [config.extends];
+  const references = Array.isArray(config.references) ? config.references : [];
+
+  return {
+    extends: parents.filter((parent): parent is string => typeof parent === "string"),
+    compilerOptions: isRecord(config.compilerOptions) ? config.compilerOptions : {},
+    references: references
+      .map((reference) => (isRecord(reference) ? reference.path : undefined))
+      .filter((path): path is string => typeof path === "string"),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch (error) {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
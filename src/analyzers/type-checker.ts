@@ -0,0 +1,221 @@
+/**
+ * Program Type Checker - Type-check code under review as a virtual file inside the
+ * workspace's TypeScript program, keeping the program between checks so only what
+ * changed is parsed and bound again
+ */
+
+import { existsSync } from "fs";
+import { basename, join } from "path";
+import { createRequire } from "module";
+import type * as ts from "typescript";
+import { WorkspaceIndex } from "./workspace-index.js";
+import { FileOverlay } from "./file-overlay.js";
+
+type TypeScript = typeof ts;
+
+export interface TypeDiagnostic {
+  code: number; // TS error code, e.g. 2339
+  category: "error" | "warning" | "suggestion" | "message";
+  message: string;
+  line?: number; // 1-based, in the checked code
+  column?: number; // 0-based
+}
+
+/**
+ * The code being checked, and a version that changes with its content
+ */
+interface VirtualFile {
+  path: string;
+  content: string;
+  version: number;
+}
+
+export class ProgramTypeChecker {
+  private workspacePath: string;
+  private overlay: FileOverlay;
+  private typescript: TypeScript | null | undefined; // null: not installed
+  private service: ts.LanguageService | null = null;
+  private config: ts.ParsedCommandLine | null = null;
+  private virtualFile: VirtualFile | null = null;
+  private versions: Map<string, number> = new Map();
+  private projectVersion = 0;
+
+  constructor(index: WorkspaceIndex) {
+    this.workspacePath = index.getWorkspacePath();
+    this.overlay = index.getOverlay();
+    index.onInvalidate((filePath) => this.invalidate(filePath));
+  }
+
+  /**
+   * Type-check code as the contents of `filePath`, which doesn't have to exist.
+   * Returns undefined when no TypeScript compiler is installed.
+   */
+  async check(code: string, filePath: string): Promise<TypeDiagnostic[] | undefined> {
+    const typescript = this.loadTypeScript();
+    if (!typescript) return undefined;
+
+    if (this.virtualFile?.path !== filePath || this.virtualFile.content !== code) {
+      this.virtualFile = { path: filePath, content: code, version: (this.virtualFile?.version ?? 0) + 1 };
+      this.projectVersion++;
+    }
+
+    const service = this.getService(typescript);
+    const diagnostics = [...service.getSyntacticDiagnostics(filePath), ...service.getSemanticDiagnostics(filePath)];
+    return diagnostics.map((diagnostic) => this.toTypeDiagnostic(typescript, diagnostic));
+  }
+
+  /**
+   * Whether a TypeScript compiler can be loaded for the workspace
+   */
+  isAvailable(): boolean {
+    return this.loadTypeScript() !== null;
+  }
+
+  /**
+   * Mark a changed file so the next check re-reads it. Config changes reload the project.
+   */
+  invalidate(filePath: string): void {
+    if (filePath === this.workspacePath) {
+      this.service?.dispose();
+      this.service = null;
+      this.config = null;
+      this.versions.clear();
+      return;
+    }
+
+    const name = basename(filePath);
+    // New and deleted files change the project's file list
+    if (
+      name === "package.json" ||
+      /^tsconfig.*\.json$/.test(name) ||
+      !this.config?.fileNames.includes(filePath) ||
+      !existsSync(filePath)
+    ) {
+      this.config = null;
+    }
+    this.versions.set(filePath, (this.versions.get(filePath) ?? 0) + 1);
+    this.projectVersion++;
+  }
+
+  /**
+   * Load the workspace's own compiler, which matches its tsconfig best, or the one
+   * installed with this server
+   */
+  private loadTypeScript(): TypeScript | null {
+    if (this.typescript !== undefined) {
+      return this.typescript;
+    }
+
+    this.typescript = null;
+    for (const base of [join(this.workspacePath, "package.json"), import.meta.url]) {
+      try {
+        this.typescript = createRequire(base)("typescript") as TypeScript;
+        break;
+      } catch (error) {
+        // Not installed there
+      }
+    }
+    return this.typescript;
+  }
+
+  /**
+   * Create the language service on first use. It asks the host for versions, so
+   * unchanged files keep their parsed and bound source files between checks.
+   */
+  private getService(typescript: TypeScript): ts.LanguageService {
+    if (this.service) {
+      return this.service;
+    }
+
+    const sys = typescript.sys;
+    // The checked code, then proposed files, stand in for the disk
+    const readVirtual = (fileName: string) =>
+      this.virtualFile && fileName === this.virtualFile.path ? this.virtualFile.content : this.overlay.read(fileName);
+
+    const host: ts.LanguageServiceHost = {
+      getProjectVersion: () => String(this.projectVersion),
+      getScriptFileNames: () => {
+        const fileNames = this.getConfig(typescript).fileNames;
+        const virtualPath = this.virtualFile?.path;
+        return virtualPath && !fileNames.includes(virtualPath) ? [...fileNames, virtualPath] : fileNames;
+      },
+      getScriptVersion: (fileName) =>
+        fileName === this.virtualFile?.path
+          ? `virtual:${this.virtualFile.version}`
+          : String(this.versions.get(fileName) ?? 0),
+      getScriptSnapshot: (fileName) => {
+        const text = readVirtual(fileName) ?? sys.readFile(fileName);
+        return text === undefined ? undefined : typescript.ScriptSnapshot.fromString(text);
+      },
+      getCompilationSettings: () => this.getConfig(typescript).options,
+      getCurrentDirectory: () => this.workspacePath,
+      getDefaultLibFileName: (options) => typescript.getDefaultLibFilePath(options),
+      fileExists: (fileName) => readVirtual(fileName) !== undefined || sys.fileExists(fileName),
+      readFile: (fileName, encoding) => readVirtual(fileName) ?? sys.readFile(fileName, encoding),
+      readDirectory: sys.readDirectory,
+      directoryExists: (dirName) => this.overlay.isDirectory(dirName) || sys.directoryExists(dirName),
+      getDirectories: sys.getDirectories,
+      realpath: sys.realpath,
+      useCaseSensitiveFileNames: () => sys.useCaseSensitiveFileNames,
+    };
+
+    this.service = typescript.createLanguageService(host, typescript.createDocumentRegistry());
+    return this.service;
+  }
+
+  /**
+   * Read the workspace tsconfig.json (following `extends`), or fall back to defaults
+   */
+  private getConfig(typescript: TypeScript): ts.ParsedCommandLine {
+    if (this.config) {
+      return this.config;
+    }
+
+    const configPath = join(this.workspacePath, "tsconfig.json");
+    const parsed = existsSync(configPath)
+      ? typescript.getParsedCommandLineOfConfigFile(
+          configPath,
+          {},
+          { ...typescript.sys, onUnRecoverableConfigFileDiagnostic: () => {} }
+        )
+      : undefined;
+
+    if (parsed) {
+      this.config = { ...parsed, options: { ...parsed.options, noEmit: true } };
+      return this.config;
+    }
+
+    // No tsconfig.json: check the code alone, resolving its imports like a bundler would
+    const options: ts.CompilerOptions = {
+      target: typescript.ScriptTarget.ES2022,
+      module: typescript.ModuleKind.ESNext,
+      moduleResolution: typescript.ModuleResolutionKind.Bundler,
+      jsx: typescript.JsxEmit.Preserve,
+      allowJs: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      strict: true,
+      noEmit: true,
+    };
+    this.config = { options, fileNames: [], errors: [] };
+    return this.config;
+  }
+
+  /**
+   * Flatten a compiler diagnostic, with its position in the checked code
+   */
+  private toTypeDiagnostic(typescript: TypeScript, diagnostic: ts.Diagnostic): TypeDiagnostic {
+    const position =
+      diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : undefined;
+
+    return {
+      code: diagnostic.code,
+      category: typescript.DiagnosticCategory[diagnostic.category].toLowerCase() as TypeDiagnostic["category"],
+      message: typescript.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+      line: position ? position.line + 1 : undefined,
+      column: position?.character,
+    };
+  }
+}
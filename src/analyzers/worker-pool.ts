@@ -0,0 +1,143 @@
+/**
+ * Parse Worker Pool - Spreads file parsing across worker threads
+ */
+
+import { Worker } from "worker_threads";
+import { availableParallelism, cpus } from "os";
+import { IndexedFileData } from "./index-store.js";
+import type { ParseRequest, ParseResponse } from "./parse-worker.js";
+
+interface ParseTask {
+  id: number;
+  filePath: string;
+  resolve: (data: IndexedFileData | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ParseTask | null;
+}
+
+/**
+ * Default number of parse workers: leave a core for the server itself
+ */
+export function defaultWorkerCount(): number {
+  const cores = typeof availableParallelism === "function" ? availableParallelism() : cpus().length;
+  return Math.min(4, Math.max(1, cores - 1));
+}
+
+export class ParseWorkerPool {
+  private size: number;
+  private workspacePath: string;
+  private workers: PoolWorker[] = [];
+  private queue: ParseTask[] = [];
+  private nextId: number = 0;
+
+  constructor(size: number, workspacePath: string) {
+    this.size = Math.max(1, size);
+    this.workspacePath = workspacePath;
+  }
+
+  /**
+   * Parse a file on a worker. Resolves to null when the file can't be parsed,
+   * and rejects only when the worker itself fails.
+   */
+  analyze(filePath: string): Promise<IndexedFileData | null> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, filePath, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers and fail queued tasks
+   */
+  async destroy(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.failAll(new Error("Parse worker pool was destroyed"), workers);
+
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker = this.workers.find((candidate) => !candidate.task);
+      if (!poolWorker) {
+        if (this.workers.length >= this.size) return;
+        poolWorker = this.spawn();
+      }
+
+      const task = this.queue.shift()!;
+      poolWorker.task = task;
+      // Only busy workers keep the process alive
+      poolWorker.worker.ref();
+      const request: ParseRequest = { id: task.id, filePath: task.filePath };
+      poolWorker.worker.postMessage(request);
+    }
+  }
+
+  /**
+   * Start a worker and wire up its results
+   */
+  private spawn(): PoolWorker {
+    const worker = new Worker(new URL("./parse-worker.js", import.meta.url), {
+      workerData: { workspacePath: this.workspacePath },
+    });
+    const poolWorker: PoolWorker = { worker, task: null };
+
+    worker.on("message", (response: ParseResponse) => {
+      const task = poolWorker.task;
+      if (!task || task.id !== response.id) return;
+
+      poolWorker.task = null;
+      worker.unref();
+      task.resolve(response.error ? null : response.data || null);
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => this.handleFailure(poolWorker, error));
+    worker.on("exit", (code) => {
+      if (this.workers.includes(poolWorker)) {
+        this.handleFailure(poolWorker, new Error(`Parse worker exited with code ${code}`));
+      }
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  /**
+   * A crashed worker fails its own task and is replaced on the next dispatch
+   */
+  private handleFailure(poolWorker: PoolWorker, error: Error): void {
+    this.workers = this.workers.filter((candidate) => candidate !== poolWorker);
+    poolWorker.task?.reject(error);
+    poolWorker.task = null;
+    void poolWorker.worker.terminate();
+
+    // If workers can't start at all, don't leave queued tasks waiting forever
+    if (this.workers.length === 0) {
+      this.failAll(error, []);
+    } else {
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Reject every queued and in-flight task
+   */
+  private failAll(error: Error, workers: PoolWorker[]): void {
+    for (const poolWorker of workers) {
+      poolWorker.task?.reject(error);
+      poolWorker.task = null;
+    }
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+  }
+}
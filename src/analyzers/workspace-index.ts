@@ -0,0 +1,573 @@
+/**
+ * Workspace Index - The single owner of file discovery, parsing and per-file analysis.
+ * Every tool and resource queries this index, so a file is parsed once and all answers agree.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { existsSync } from "fs";
+import { relative, resolve, isAbsolute } from "path";
+import { ASTAnalyzer } from "./ast-analyzer.js";
+import { ImportTracker } from "./import-tracker.js";
+import { SignatureValidator } from "./signature-validator.js";
+import { IndexStore } from "./index-store.js";
+import { FileOverlay } from "./file-overlay.js";
+import { ParseWorkerPool, defaultWorkerCount } from "./worker-pool.js";
+import { WorkspaceWatcher, WorkspaceChange } from "../utils/workspace-watcher.js";
+import { FileDiscovery, isIgnoreFile } from "../utils/file-discovery.js";
+import {
+  AnalysisError,
+  ExportInfo,
+  FunctionSignature,
+  ImportInfo,
+  OverlayFile,
+  ServerConfig,
+  SymbolInfo,
+} from "../types/index.js";
+
+/**
+ * Below this many unindexed files, starting workers costs more than it saves
+ */
+const MIN_FILES_FOR_WORKERS = 16;
+
+/**
+ * Files indexed on the main thread between yields to the event loop
+ */
+const INDEX_BATCH_SIZE = 25;
+
+export class WorkspaceIndex {
+  private config: ServerConfig;
+  private workspacePath: string;
+  private analyzer: ASTAnalyzer;
+  private importTracker: ImportTracker;
+  private signatureValidator: SignatureValidator;
+  private indexStore: IndexStore;
+  private discovery: FileDiscovery;
+  private overlay: FileOverlay = new FileOverlay();
+  private overlayQueue: Promise<void> = Promise.resolve();
+  private overlayRuns: number = 0; // Waiting or running
+  private overlayIdle: Promise<void> = Promise.resolve();
+  private overlayDone: () => void = () => {};
+  private activeQueries: number = 0;
+  private queriesDrained: Array<() => void> = [];
+  private queryContext = new AsyncLocalStorage<{ counted: boolean }>();
+  private watcher?: WorkspaceWatcher;
+  private files: Set<string> | null = null;
+  private symbols: Map<string, SymbolInfo[]> = new Map();
+  private staleFiles: Set<string> = new Set();
+  private dependencyGraph: Map<string, Set<string>> | null = null;
+  private listeners: Array<(filePath: string) => void> = [];
+  private workerCount: number;
+  private pool: ParseWorkerPool | null = null;
+  private indexing: Promise<void> | null = null;
+  private generation: number = 0;
+
+  constructor(config: ServerConfig) {
+    this.config = config;
+    this.workspacePath = config.workspacePath;
+    this.discovery = new FileDiscovery(config);
+    this.indexStore = new IndexStore(this.workspacePath, {
+      cacheDir: config.cacheDir,
+      persistent: config.persistentIndex,
+      overlay: this.overlay,
+    });
+    this.analyzer = new ASTAnalyzer({ overlay: this.overlay });
+    this.importTracker = new ImportTracker(this.workspacePath, {
+      analyzer: this.analyzer,
+      indexStore: this.indexStore,
+      overlay: this.overlay,
+    });
+    this.signatureValidator = new SignatureValidator(this.workspacePath, {
+      analyzer: this.analyzer,
+      indexStore: this.indexStore,
+    });
+    this.workerCount = config.indexWorkers ?? defaultWorkerCount();
+  }
+
+  /**
+   * Get the workspace root
+   */
+  getWorkspacePath(): string {
+    return this.workspacePath;
+  }
+
+  /**
+   * Get the shared AST analyzer
+   */
+  getAnalyzer(): ASTAnalyzer {
+    return this.analyzer;
+  }
+
+  /**
+   * Get the shared import tracker (exports, imports and module resolution)
+   */
+  getImportTracker(): ImportTracker {
+    return this.importTracker;
+  }
+
+  /**
+   * Get the proposed files currently analyzed in place of the disk
+   */
+  getOverlay(): FileOverlay {
+    return this.overlay;
+  }
+
+  /**
+   * Get the file discovery rules (include/exclude and ignore files)
+   */
+  getFileDiscovery(): FileDiscovery {
+    return this.discovery;
+  }
+
+  /**
+   * Get the shared signature validator
+   */
+  getSignatureValidator(): SignatureValidator {
+    return this.signatureValidator;
+  }
+
+  /**
+   * Get all indexed source files
+   */
+  async getSourceFiles(): Promise<string[]> {
+    await this.ensureIndexed();
+    return Array.from(this.files!);
+  }
+
+  /**
+   * Get symbols for every file that declares any
+   */
+  async getAllSymbols(): Promise<Map<string, SymbolInfo[]>> {
+    await this.ensureIndexed();
+    return this.symbols;
+  }
+
+  /**
+   * Get the symbols declared in a file
+   */
+  async getSymbols(filePath: string): Promise<SymbolInfo[]> {
+    await this.ensureIndexed();
+    return this.symbols.get(filePath) || [];
+  }
+
+  /**
+   * Get exports for every file that has any
+   */
+  async getAllExports(): Promise<Map<string, ExportInfo[]>> {
+    await this.ensureIndexed();
+
+    const result = new Map<string, ExportInfo[]>();
+    for (const filePath of this.files!) {
+      const exports = this.getExports(filePath);
+      if (exports.length > 0) {
+        result.set(filePath, exports);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get imports for every file that has any
+   */
+  async getAllImports(): Promise<Map<string, ImportInfo[]>> {
+    await this.ensureIndexed();
+
+    const result = new Map<string, ImportInfo[]>();
+    for (const filePath of this.files!) {
+      const imports = this.getImports(filePath);
+      if (imports.length > 0) {
+        result.set(filePath, imports);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the exports of a file, or none if it can't be parsed
+   */
+  getExports(filePath: string): ExportInfo[] {
+    try {
+      return this.importTracker.extractExports(filePath);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Get the imports of a file, or none if it can't be parsed
+   */
+  getImports(filePath: string): ImportInfo[] {
+    try {
+      return this.importTracker.extractImports(filePath);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Get the function signatures declared in a file
+   */
+  getSignatures(filePath: string): FunctionSignature[] {
+    return this.signatureValidator.getAllSignatures(filePath);
+  }
+
+  /**
+   * Get the local dependency graph (file -> files it imports)
+   */
+  async getDependencyGraph(): Promise<Map<string, Set<string>>> {
+    await this.ensureIndexed();
+
+    if (!this.dependencyGraph) {
+      const graph = new Map<string, Set<string>>();
+
+      for (const filePath of this.files!) {
+        const dependencies = new Set<string>();
+
+        for (const imp of this.getImports(filePath)) {
+          // Skip external packages
+          if (!imp.path.startsWith(".") && !imp.path.startsWith("/")) {
+            continue;
+          }
+
+          const resolved = this.importTracker.resolveImportPath(imp.path, filePath);
+          if (resolved.exists && resolved.resolvedPath) {
+            dependencies.add(resolved.resolvedPath);
+          }
+        }
+
+        graph.set(filePath, dependencies);
+      }
+
+      this.dependencyGraph = graph;
+    }
+
+    return this.dependencyGraph;
+  }
+
+  /**
+   * Find files that import a file
+   */
+  async findImporters(filePath: string): Promise<string[]> {
+    const graph = await this.getDependencyGraph();
+    const importers: string[] = [];
+
+    for (const [file, dependencies] of graph) {
+      if (dependencies.has(filePath)) {
+        importers.push(file);
+      }
+    }
+
+    return importers;
+  }
+
+  /**
+   * Register a callback for invalidated files (for caches derived from the index)
+   */
+  onInvalidate(listener: (filePath: string) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Invalidate everything derived from a changed, added or deleted file
+   */
+  invalidate(filePath: string): void {
+    // Changed ignore rules can add or remove any number of files
+    if (isIgnoreFile(filePath)) {
+      this.discovery.reload();
+      this.files = null;
+      this.symbols.clear();
+      this.generation++;
+    }
+
+    this.staleFiles.add(filePath);
+    this.dependencyGraph = null;
+    this.importTracker.invalidate(filePath);
+    this.signatureValidator.invalidate(filePath);
+    this.analyzer.invalidate(filePath);
+
+    for (const listener of this.listeners) {
+      listener(filePath);
+    }
+  }
+
+  /**
+   * Run a request against the index. Requests run side by side, but never while an
+   * overlaid run is active, so they don't see proposed files or lose their caches to one.
+   */
+  async runQuery<T>(run: () => Promise<T>): Promise<T> {
+    if (this.queryContext.getStore()) {
+      return run();
+    }
+
+    while (this.overlayRuns > 0) {
+      await this.overlayIdle;
+    }
+
+    const context = { counted: true };
+    this.activeQueries++;
+    try {
+      return await this.queryContext.run(context, run);
+    } finally {
+      if (context.counted) {
+        this.leaveQuery();
+      }
+    }
+  }
+
+  /**
+   * Analyze proposed files as if they were written to the workspace while `run` executes:
+   * symbols, exports, imports, signatures and module resolution all see the overlay.
+   * Overlaid runs take turns and wait for other requests to finish, since the index is
+   * shared by every request.
+   */
+  async withOverlay<T>(files: OverlayFile[], run: () => Promise<T>): Promise<T> {
+    const overlaid = new Map<string, string>();
+    for (const file of files) {
+      const filePath = resolve(this.workspacePath, file.path);
+      const relativePath = relative(this.workspacePath, filePath);
+      if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+        throw new AnalysisError("Proposed file is outside the workspace", file.path);
+      }
+      overlaid.set(filePath, file.content);
+    }
+
+    // The request asking for the overlay stops counting as a plain request, or it would wait for itself
+    const context = this.queryContext.getStore();
+    if (context?.counted) {
+      context.counted = false;
+      this.leaveQuery();
+    }
+
+    if (this.overlayRuns++ === 0) {
+      this.overlayIdle = new Promise((done) => (this.overlayDone = done));
+    }
+    const previous = this.overlayQueue;
+    let release!: () => void;
+    this.overlayQueue = new Promise((done) => (release = done));
+
+    try {
+      await previous;
+      if (this.activeQueries > 0) {
+        await new Promise<void>((done) => this.queriesDrained.push(done));
+      }
+
+      // New files join the index as stale files, which needs a built index
+      await this.ensureIndexed();
+      this.overlay.set(overlaid);
+      for (const filePath of overlaid.keys()) {
+        this.invalidate(filePath);
+      }
+      return await run();
+    } finally {
+      this.overlay.clear();
+      for (const filePath of overlaid.keys()) {
+        this.invalidate(filePath);
+      }
+      release();
+      if (--this.overlayRuns === 0) {
+        this.overlayDone();
+      }
+    }
+  }
+
+  /**
+   * Watch the workspace and invalidate files as they change
+   */
+  startWatching(): void {
+    if (this.watcher) return;
+
+    this.watcher = new WorkspaceWatcher(
+      this.config,
+      (change) => this.handleWorkspaceChange(change),
+      this.discovery
+    );
+    this.watcher.start();
+  }
+
+  /**
+   * Stop watching the workspace
+   */
+  stopWatching(): void {
+    this.watcher?.stop();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Discard the on-disk index and re-index the whole workspace
+   */
+  async rebuild(): Promise<number> {
+    this.indexStore.clear();
+    this.clearCache();
+    await this.ensureIndexed();
+    return this.files!.size;
+  }
+
+  /**
+   * Write the on-disk index
+   */
+  save(): void {
+    this.indexStore.save();
+  }
+
+  /**
+   * Stop watching, shut down parse workers and write the on-disk index
+   */
+  async close(): Promise<void> {
+    this.stopWatching();
+    await this.pool?.destroy();
+    this.pool = null;
+    this.save();
+  }
+
+  /**
+   * Clear all in-memory caches
+   */
+  clearCache(): void {
+    this.files = null;
+    this.symbols.clear();
+    this.staleFiles.clear();
+    this.dependencyGraph = null;
+    this.generation++;
+    this.discovery.reload();
+    this.importTracker.clearCache();
+    this.signatureValidator.clearCache();
+    this.analyzer.clearCache();
+
+    for (const listener of this.listeners) {
+      listener(this.workspacePath);
+    }
+  }
+
+  /**
+   * End a plain request, letting waiting overlaid runs start once none are left
+   */
+  private leaveQuery(): void {
+    if (--this.activeQueries === 0) {
+      for (const done of this.queriesDrained.splice(0)) {
+        done();
+      }
+    }
+  }
+
+  /**
+   * Index the workspace on first use, then re-index only files changed since.
+   * Concurrent callers share one build, and the event loop stays free while it runs.
+   */
+  private async ensureIndexed(): Promise<void> {
+    if (this.indexing) {
+      return this.indexing;
+    }
+
+    if (!this.files) {
+      this.indexing = this.buildIndex().finally(() => {
+        this.indexing = null;
+      });
+      return this.indexing;
+    }
+
+    for (const filePath of this.staleFiles) {
+      this.symbols.delete(filePath);
+      if (this.discovery.isIncluded(filePath) && (this.overlay.has(filePath) || existsSync(filePath))) {
+        this.files.add(filePath);
+        this.indexFile(filePath);
+      } else {
+        this.files.delete(filePath);
+      }
+    }
+    this.staleFiles.clear();
+  }
+
+  /**
+   * Discover and index every source file, starting over if the cache is cleared meanwhile
+   */
+  private async buildIndex(): Promise<void> {
+    let generation: number;
+    do {
+      generation = this.generation;
+      this.staleFiles.clear();
+
+      const files = await this.discovery.findSourceFiles();
+      await this.parseInWorkers(files.filter((filePath) => !this.indexStore.isComplete(filePath)));
+
+      for (let i = 0; i < files.length; i++) {
+        this.indexFile(files[i]);
+        if ((i + 1) % INDEX_BATCH_SIZE === 0) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+
+      if (generation === this.generation) {
+        this.files = new Set(files);
+      }
+    } while (generation !== this.generation);
+
+    this.indexStore.save();
+  }
+
+  /**
+   * Parse files on the worker pool into the index store.
+   * Files a worker couldn't handle are left for the main thread.
+   */
+  private async parseInWorkers(files: string[]): Promise<void> {
+    if (this.workerCount <= 0 || files.length < MIN_FILES_FOR_WORKERS) return;
+
+    const pool = new ParseWorkerPool(this.workerCount, this.workspacePath);
+    this.pool = pool;
+
+    try {
+      await Promise.all(
+        files.map(async (filePath) => {
+          try {
+            const data = await pool.analyze(filePath);
+            if (data) {
+              this.indexStore.setAll(filePath, data);
+            }
+          } catch (error) {
+            // Worker unavailable or crashed: indexFile parses it on this thread
+          }
+        })
+      );
+    } finally {
+      await pool.destroy();
+      if (this.pool === pool) {
+        this.pool = null;
+      }
+    }
+  }
+
+  /**
+   * Extract everything the tools need from a file in a single parse
+   */
+  private indexFile(filePath: string): void {
+    try {
+      // Only re-parse files whose content changed since they were indexed
+      let symbols = this.indexStore.get(filePath, "symbols");
+      if (!symbols) {
+        const ast = this.analyzer.parseFile(filePath);
+        symbols = this.analyzer.extractSymbols(ast, filePath);
+        this.indexStore.set(filePath, "symbols", symbols);
+      }
+      if (symbols.length > 0) {
+        this.symbols.set(filePath, symbols);
+      }
+    } catch (error) {
+      // Skip files that can't be parsed
+    }
+
+    this.getExports(filePath);
+    this.getImports(filePath);
+    this.getSignatures(filePath);
+
+    // Extracted data is all the tools need; don't keep every AST in memory
+    this.analyzer.invalidate(filePath);
+  }
+
+  /**
+   * Apply a change reported by the workspace watcher
+   */
+  private handleWorkspaceChange(change: WorkspaceChange): void {
+    if (change.deleted) {
+      this.indexStore.delete(change.filePath);
+    }
+    this.invalidate(change.filePath);
+  }
+}
@@ -10,6 +10,8 @@
  * Usage:
  *   npx stdio
  *   npx stdio --workspace /path/to/project
+ *   npx stdio --rebuild-index
+ *   npx stdio --review-changes [--staged] [--ref <ref>]
  *   npx stdio --help
  */
 
@@ -18,13 +20,25 @@ import { existsSync } from "fs";
 import { cwd } from "process";
 import { StdioServer } from "./server.js";
 import { ServerConfig } from "./types/index.js";
+import { WorkspaceIndex } from "./analyzers/index.js";
+import { PostReviewTools } from "./tools/index.js";
+
+interface CliArgs {
+  workspace?: string;
+  help?: boolean;
+  version?: boolean;
+  rebuildIndex?: boolean;
+  reviewChanges?: boolean;
+  staged?: boolean;
+  ref?: string;
+}
 
 /**
  * Parse command line arguments
  */
-function parseArgs(): { workspace?: string; help?: boolean; version?: boolean } {
+function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
-  const result: { workspace?: string; help?: boolean; version?: boolean } = {};
+  const result: CliArgs = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -37,6 +51,16 @@ function parseArgs(): { workspace?: string; help?: boolean; version?: boolean }
       result.workspace = args[++i];
     } else if (arg.startsWith("--workspace=")) {
       result.workspace = arg.split("=")[1];
+    } else if (arg === "--rebuild-index") {
+      result.rebuildIndex = true;
+    } else if (arg === "--review-changes") {
+      result.reviewChanges = true;
+    } else if (arg === "--staged") {
+      result.staged = true;
+    } else if (arg === "--ref") {
+      result.ref = args[++i];
+    } else if (arg.startsWith("--ref=")) {
+      result.ref = arg.slice("--ref=".length);
     }
   }
 
@@ -55,6 +79,11 @@ USAGE:
 
 OPTIONS:
   --workspace, -w <path>   Path to the workspace root (default: current directory)
+  --rebuild-index         Discard the on-disk index and re-index the workspace on startup
+  --review-changes        Review the workspace's uncommitted changes, print the result and exit
+                          (exit code 1 when errors are found, 2 when the review fails)
+  --staged                With --review-changes, review the staged changes instead
+  --ref <ref>             With --review-changes, diff against this ref (default: HEAD)
   --help, -h              Show this help message
   --version, -v           Show version information
 
@@ -72,6 +101,8 @@ TOOLS:
 
   Post-Generation Review:
     - review_code_for_hallucinations    Comprehensive code review
+    - review_patch                      Review a unified diff against the workspace
+    - review_working_changes            Review uncommitted git changes
     - detect_contradictions             Detect logical contradictions
     - validate_factual_claims           Validate claims against codebase
 
@@ -92,6 +123,13 @@ CONFIGURATION:
      - STDIO_LOG_LEVEL    Log level (debug, info, warn, error)
   3. Config file: .stdiorc.json in workspace root
 
+INDEX:
+  Symbols, exports, imports and signatures are cached in .epistemic-cache/
+  (configurable with "cacheDir") keyed by file content hash, so restarts only
+  re-parse changed files. Set "persistentIndex": false to disable.
+  Files are parsed on a pool of worker threads ("indexWorkers", default: one
+  less than the number of cores, at most 4; 0 parses on the main thread).
+
 EXAMPLES:
   # Start with current directory as workspace
   npx stdio
@@ -99,6 +137,9 @@ EXAMPLES:
   # Start with specific workspace
   npx stdio --workspace /path/to/project
 
+  # Review the staged changes, e.g. from a pre-commit hook
+  npx stdio --review-changes --staged
+
   # Use with Claude Desktop (add to .mcp.json or claude_desktop_config.json):
   {
     "mcpServers": {
@@ -186,7 +227,7 @@ async function main(): Promise<void> {
   // Create server config
   const config: ServerConfig = {
     workspacePath,
-    include: [".ts", ".tsx", ".js", ".jsx"],
+    include: [".ts", ".tsx", ".js", ".jsx", ".mts", ".mjs", ".cjs"],
     exclude: ["node_modules", "dist", ".git", "build"],
     logLevel: (process.env.STDIO_LOG_LEVEL as any) || "info",
     maxCacheSize: 1000,
@@ -195,9 +236,28 @@ async function main(): Promise<void> {
     ...fileConfig,
   };
 
+  // One-off review instead of serving
+  if (args.reviewChanges) {
+    const index = new WorkspaceIndex({ ...config, watch: false });
+    const result = await new PostReviewTools(config, index).reviewWorkingChanges({
+      ref: args.ref,
+      staged: args.staged,
+    });
+    await index.close();
+
+    const text = result.content[0].text;
+    console.log(text);
+    process.exit(result.isError ? 2 : JSON.parse(text).breakdown.errors > 0 ? 1 : 0);
+  }
+
   // Create and start server
   const server = new StdioServer(config);
 
+  if (args.rebuildIndex) {
+    const fileCount = await server.rebuildIndex();
+    console.error(`Rebuilt index for ${fileCount} files`);
+  }
+
   // Handle graceful shutdown
   process.on("SIGINT", async () => {
     console.error("\nShutting down gracefully...");
@@ -4,17 +4,22 @@
 
 import { readFileSync, readdirSync, statSync } from "fs";
 import { join, relative, extname } from "path";
-import glob from "fast-glob";
+import { WorkspaceIndex } from "../analyzers/index.js";
+import { FileDiscovery } from "../utils/file-discovery.js";
 import { CodebaseStructure, ServerConfig } from "../types/index.js";
 
 export class CodebaseStructureResource {
   private workspacePath: string;
+  private discovery: FileDiscovery;
   private cache: CodebaseStructure | null = null;
   private cacheTime: number = 0;
   private cacheTTL: number = 30000; // 30 seconds
 
-  constructor(config: ServerConfig) {
+  constructor(config: ServerConfig, index?: WorkspaceIndex) {
     this.workspacePath = config.workspacePath;
+    this.discovery = index ? index.getFileDiscovery() : new FileDiscovery(config);
+    // The structure summarizes the whole workspace, so any indexed change makes it stale
+    index?.onInvalidate((filePath) => this.invalidate(filePath));
   }
 
   /**
@@ -36,18 +41,7 @@ export class CodebaseStructureResource {
       : this.workspacePath;
 
     // Get all files
-    const files = await glob("**/*", {
-      cwd: basePath,
-      absolute: false,
-      onlyFiles: true,
-      ignore: [
-        "**/node_modules/**",
-        "**/dist/**",
-        "**/build/**",
-        "**/.git/**",
-        "**/coverage/**",
-      ],
-    });
+    const files = await this.discovery.findFiles({ basePath });
 
     const fileData = files.map((file) => {
       const fullPath = join(basePath, file);
@@ -62,18 +56,7 @@ export class CodebaseStructureResource {
     });
 
     // Get directories
-    const directories = await glob("**/*", {
-      cwd: basePath,
-      absolute: false,
-      onlyDirectories: true,
-      ignore: [
-        "**/node_modules/**",
-        "**/dist/**",
-        "**/build/**",
-        "**/.git/**",
-      ],
-      deep: 3,
-    });
+    const directories = await this.discovery.findFiles({ basePath, onlyDirectories: true, deep: 3 });
 
     // Calculate statistics
     const languageBreakdown = this.calculateLanguageBreakdown(files);
@@ -189,6 +172,14 @@ export class CodebaseStructureResource {
     return total;
   }
 
+  /**
+   * Drop the cached structure after a file change
+   */
+  invalidate(_filePath: string): void {
+    this.cache = null;
+    this.cacheTime = 0;
+  }
+
   /**
    * Clear the cache
    */
@@ -12,6 +12,7 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { ExistenceCheckTools, APIValidationTools, ConsistencyCheckTools, PostReviewTools } from "./tools/index.js";
 import { CodebaseStructureResource, ExportsMapResource } from "./resources/index.js";
+import { WorkspaceIndex } from "./analyzers/index.js";
 import { ServerConfig } from "./types/index.js";
 import { StrictModeManager } from "./utils/strict-mode.js";
 
@@ -25,6 +26,7 @@ export class StdioServer {
   private codebaseResource: CodebaseStructureResource;
   private exportsResource: ExportsMapResource;
   private strictModeManager: StrictModeManager;
+  private index: WorkspaceIndex;
 
   constructor(config: ServerConfig) {
     this.config = config;
@@ -35,15 +37,18 @@ export class StdioServer {
       requireValidationFor: config.requireValidationFor,
     });
 
+    // One workspace index shared by all tools and resources
+    this.index = new WorkspaceIndex(config);
+
     // Initialize tools
-    this.existenceTools = new ExistenceCheckTools(config);
-    this.apiValidationTools = new APIValidationTools(config);
+    this.existenceTools = new ExistenceCheckTools(config, this.index);
+    this.apiValidationTools = new APIValidationTools(config, this.index);
     this.consistencyTools = new ConsistencyCheckTools(config);
-    this.postReviewTools = new PostReviewTools(config);
+    this.postReviewTools = new PostReviewTools(config, this.index);
 
     // Initialize resources
-    this.codebaseResource = new CodebaseStructureResource(config);
-    this.exportsResource = new ExportsMapResource(config);
+    this.codebaseResource = new CodebaseStructureResource(config, this.index);
+    this.exportsResource = new ExportsMapResource(config, this.index);
 
     // Create MCP server
     this.server = new Server(
@@ -79,7 +84,7 @@ export class StdioServer {
               properties: {
                 symbol: {
                   type: "string",
-                  description: "Name of the symbol to verify",
+                  description: "Name of the symbol to verify; qualify members with their owner (e.g. UserRepo.save)",
                 },
                 filePath: {
                   type: "string",
@@ -87,8 +92,25 @@ export class StdioServer {
                 },
                 symbolType: {
                   type: "string",
-                  enum: ["function", "class", "variable", "import", "type", "interface"],
-                  description: "Type of symbol",
+                  enum: [
+                    "function",
+                    "class",
+                    "variable",
+                    "import",
+                    "type",
+                    "interface",
+                    "enum",
+                    "enum-member",
+                    "namespace",
+                    "property",
+                    "getter",
+                    "setter",
+                  ],
+                  description: "Type of symbol (any type when omitted)",
+                },
+                includeLocals: {
+                  type: "boolean",
+                  description: "Also match declarations local to a function body (default: false)",
                 },
               },
               required: ["symbol"],
@@ -108,6 +130,14 @@ export class StdioServer {
                   type: "string",
                   description: "File containing the import",
                 },
+                resolveAliases: {
+                  type: "boolean",
+                  description: "Resolve tsconfig paths/baseUrl aliases",
+                },
+                typeOnly: {
+                  type: "boolean",
+                  description: "Whether this is an `import type` (allows @types-only packages)",
+                },
               },
               required: ["importPath", "fromFile"],
             },
@@ -189,10 +219,103 @@ export class StdioServer {
                   type: "boolean",
                   description: "Check type consistency",
                 },
+                typeCheck: {
+                  type: "boolean",
+                  description:
+                    "Type-check the code with the TypeScript compiler inside the workspace's program (default: the typeCheck setting)",
+                },
+                files: {
+                  type: "array",
+                  description:
+                    "Proposed files ({ path, content }) the code is reviewed against, as if they were written to the workspace",
+                  items: {
+                    type: "object",
+                    properties: {
+                      path: { type: "string", description: "Path relative to the workspace, or absolute" },
+                      content: { type: "string", description: "Proposed content of the file" },
+                    },
+                    required: ["path", "content"],
+                  },
+                },
+                targetFile: {
+                  type: "string",
+                  description: "File the code will be added to; the code is reviewed in place, with the file's imports and declarations in scope",
+                },
+                insertAtLine: {
+                  type: "number",
+                  description: "Line of targetFile the code is inserted before (default: the end of the file)",
+                },
               },
               required: ["code", "language"],
             },
           },
+          {
+            name: "review_patch",
+            description:
+              "Apply a unified diff to the workspace in memory and review the lines it adds or changes; reports hunks that don't apply",
+            inputSchema: {
+              type: "object",
+              properties: {
+                patch: {
+                  type: "string",
+                  description: "Unified diff, as produced by `git diff` or `diff -u`",
+                },
+                checkImports: {
+                  type: "boolean",
+                  description: "Check import statements",
+                },
+                checkSignatures: {
+                  type: "boolean",
+                  description: "Check function signatures",
+                },
+                checkTypes: {
+                  type: "boolean",
+                  description: "Check type consistency",
+                },
+                typeCheck: {
+                  type: "boolean",
+                  description:
+                    "Type-check the patched files with the TypeScript compiler inside the workspace's program (default: the typeCheck setting)",
+                },
+              },
+              required: ["patch"],
+            },
+          },
+          {
+            name: "review_working_changes",
+            description:
+              "Review the lines changed in the working tree (or index) against HEAD or a ref with git, plus untracked files",
+            inputSchema: {
+              type: "object",
+              properties: {
+                ref: {
+                  type: "string",
+                  description: "Commit, branch or tag to diff against (default: HEAD)",
+                },
+                staged: {
+                  type: "boolean",
+                  description: "Review the staged changes instead of the working tree",
+                },
+                checkImports: {
+                  type: "boolean",
+                  description: "Check import statements",
+                },
+                checkSignatures: {
+                  type: "boolean",
+                  description: "Check function signatures",
+                },
+                checkTypes: {
+                  type: "boolean",
+                  description: "Check type consistency",
+                },
+                typeCheck: {
+                  type: "boolean",
+                  description:
+                    "Type-check the changed files with the TypeScript compiler inside the workspace's program (default: the typeCheck setting)",
+                },
+              },
+            },
+          },
           {
             name: "detect_contradictions",
             description: "Detect logical contradictions in statements",
@@ -227,6 +350,10 @@ export class StdioServer {
                   type: "string",
                   description: "Domain to validate against",
                 },
+                targetFile: {
+                  type: "string",
+                  description: "File that imports in claims resolve from (default: the workspace root)",
+                },
               },
               required: ["claims"],
             },
@@ -248,6 +375,14 @@ export class StdioServer {
                   items: { type: "string" },
                   description: "Expected invariants",
                 },
+                targetFile: {
+                  type: "string",
+                  description: "File the code blocks will be added to; names it already declares there are reported",
+                },
+                insertAtLine: {
+                  type: "number",
+                  description: "Line of targetFile the code is inserted before (default: the end of the file)",
+                },
               },
               required: ["codeBlocks"],
             },
@@ -271,6 +406,14 @@ export class StdioServer {
                   enum: ["typescript", "javascript", "tsx", "jsx"],
                   description: "Programming language",
                 },
+                targetFile: {
+                  type: "string",
+                  description: "File the code will be added to; the declared types of variables in scope there are checked too",
+                },
+                insertAtLine: {
+                  type: "number",
+                  description: "Line of targetFile the code is inserted before (default: the end of the file)",
+                },
               },
               required: ["code", "language"],
             },
@@ -305,175 +448,185 @@ export class StdioServer {
       };
     });
 
-    // Handle tool calls
-    // @ts-ignore - MCP SDK type mismatch with our ToolResponse type
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    // Handle tool calls, after any overlaid review (see WorkspaceIndex.withOverlay)
+    this.server.setRequestHandler(CallToolRequestSchema, (request) =>
+      // @ts-ignore - MCP SDK type mismatch with our ToolResponse type
+      this.index.runQuery(async () => {
+        const { name, arguments: args } = request.params;
 
-      // Check strict mode compliance
-      const violation = this.strictModeManager.checkViolation(name);
-      if (violation.violation) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                error: "Strict mode violation",
-                message: violation.message,
-                strictLevel: this.strictModeManager.getConfig().level,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
+        // Check strict mode compliance
+        const violation = this.strictModeManager.checkViolation(name);
+        if (violation.violation) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: "Strict mode violation",
+                  message: violation.message,
+                  strictLevel: this.strictModeManager.getConfig().level,
+                }),
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      // Record validation when validation tools are called
-      if (
-        name === "verify_symbol_exists" ||
-        name === "validate_import_path" ||
-        name === "check_function_signature" ||
-        name === "verify_api_usage" ||
-        name === "review_code_for_hallucinations" ||
-        name === "validate_factual_claims"
-      ) {
-        this.strictModeManager.recordValidation(name);
-      }
+        // Record validation when validation tools are called
+        if (
+          name === "verify_symbol_exists" ||
+          name === "validate_import_path" ||
+          name === "check_function_signature" ||
+          name === "verify_api_usage" ||
+          name === "review_code_for_hallucinations" ||
+          name === "review_patch" ||
+          name === "review_working_changes" ||
+          name === "validate_factual_claims"
+        ) {
+          this.strictModeManager.recordValidation(name);
+        }
 
-      try {
-        switch (name) {
-          // Pre-flight validation tools
-          case "verify_symbol_exists":
-            return await this.existenceTools.verifySymbolExists(args as any);
-          case "validate_import_path":
-            return await this.existenceTools.validateImportPath(args as any);
-          case "check_function_signature":
-            return await this.existenceTools.checkFunctionSignature(args as any);
-          case "verify_api_usage":
-            return await this.apiValidationTools.verifyApiUsage(args as any);
+        try {
+          switch (name) {
+            // Pre-flight validation tools
+            case "verify_symbol_exists":
+              return await this.existenceTools.verifySymbolExists(args as any);
+            case "validate_import_path":
+              return await this.existenceTools.validateImportPath(args as any);
+            case "check_function_signature":
+              return await this.existenceTools.checkFunctionSignature(args as any);
+            case "verify_api_usage":
+              return await this.apiValidationTools.verifyApiUsage(args as any);
 
-          // Post-review tools
-          case "review_code_for_hallucinations":
-            return await this.postReviewTools.reviewCodeForHallucinations(args as any);
-          case "detect_contradictions":
-            return await this.consistencyTools.detectContradictions(args as any);
-          case "validate_factual_claims":
-            return await this.postReviewTools.validateFactualClaims(args as any);
+            // Post-review tools
+            case "review_code_for_hallucinations":
+              return await this.postReviewTools.reviewCodeForHallucinations(args as any);
+            case "review_patch":
+              return await this.postReviewTools.reviewPatch(args as any);
+            case "review_working_changes":
+              return await this.postReviewTools.reviewWorkingChanges(args as any);
+            case "detect_contradictions":
+              return await this.consistencyTools.detectContradictions(args as any);
+            case "validate_factual_claims":
+              return await this.postReviewTools.validateFactualClaims(args as any);
 
-          // Consistency check tools
-          case "check_logical_consistency":
-            return await this.consistencyTools.checkLogicalConsistency(args as any);
-          case "validate_type_consistency":
-            return await this.consistencyTools.validateTypeConsistency(args as any);
+            // Consistency check tools
+            case "check_logical_consistency":
+              return await this.consistencyTools.checkLogicalConsistency(args as any);
+            case "validate_type_consistency":
+              return await this.consistencyTools.validateTypeConsistency(args as any);
 
-          default:
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify({ error: `Unknown tool: ${name}` }),
-                },
-              ],
-              isError: true,
-            };
+            default:
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify({ error: `Unknown tool: ${name}` }),
+                  },
+                ],
+                isError: true,
+              };
+          }
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
+                }),
+              },
+            ],
+            isError: true,
+          };
         }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                error: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
-              }),
-            },
-          ],
-          isError: true,
-        };
-      }
-    });
+      })
+    );
 
-    // Handle resource reads
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
+    // Handle resource reads, after any overlaid review
+    this.server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+      this.index.runQuery(async () => {
+        const { uri } = request.params;
 
-      try {
-        switch (uri) {
-          case "codebase://structure": {
-            const structure = await this.codebaseResource.getCodebaseStructure();
-            return {
-              contents: [
-                {
-                  uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(structure, null, 2),
-                },
-              ],
-            };
-          }
+        try {
+          switch (uri) {
+            case "codebase://structure": {
+              const structure = await this.codebaseResource.getCodebaseStructure();
+              return {
+                contents: [
+                  {
+                    uri,
+                    mimeType: "application/json",
+                    text: JSON.stringify(structure, null, 2),
+                  },
+                ],
+              };
+            }
 
-          case "codebase://exports": {
-            const exports = await this.exportsResource.getExports();
-            const exportsObj = Object.fromEntries(
-              Array.from(exports.entries()).map(([path, exps]) => [
-                path,
-                exps,
-              ])
-            );
-            return {
-              contents: [
-                {
-                  uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(exportsObj, null, 2),
-                },
-              ],
-            };
-          }
+            case "codebase://exports": {
+              const exports = await this.exportsResource.getExports();
+              const exportsObj = Object.fromEntries(
+                Array.from(exports.entries()).map(([path, exps]) => [
+                  path,
+                  exps,
+                ])
+              );
+              return {
+                contents: [
+                  {
+                    uri,
+                    mimeType: "application/json",
+                    text: JSON.stringify(exportsObj, null, 2),
+                  },
+                ],
+              };
+            }
 
-          case "codebase://imports": {
-            const imports = await this.exportsResource.getImports();
-            const importsObj = Object.fromEntries(
-              Array.from(imports.entries()).map(([path, imps]) => [
-                path,
-                imps,
-              ])
-            );
-            return {
-              contents: [
-                {
-                  uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(importsObj, null, 2),
-                },
-              ],
-            };
-          }
+            case "codebase://imports": {
+              const imports = await this.exportsResource.getImports();
+              const importsObj = Object.fromEntries(
+                Array.from(imports.entries()).map(([path, imps]) => [
+                  path,
+                  imps,
+                ])
+              );
+              return {
+                contents: [
+                  {
+                    uri,
+                    mimeType: "application/json",
+                    text: JSON.stringify(importsObj, null, 2),
+                  },
+                ],
+              };
+            }
 
-          default:
-            return {
-              contents: [
-                {
-                  uri,
-                  mimeType: "text/plain",
-                  text: JSON.stringify({ error: `Unknown resource: ${uri}` }),
-                },
-              ],
-            };
+            default:
+              return {
+                contents: [
+                  {
+                    uri,
+                    mimeType: "text/plain",
+                    text: JSON.stringify({ error: `Unknown resource: ${uri}` }),
+                  },
+                ],
+              };
+          }
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "text/plain",
+                text: JSON.stringify({
+                  error: `Resource read failed: ${error instanceof Error ? error.message : String(error)}`,
+                }),
+              },
+            ],
+          };
         }
-      } catch (error) {
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: "text/plain",
-              text: JSON.stringify({
-                error: `Resource read failed: ${error instanceof Error ? error.message : String(error)}`,
-              }),
-            },
-          ],
-        };
-      }
-    });
+      })
+    );
   }
 
   /**
@@ -483,6 +636,11 @@ export class StdioServer {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
 
+    // Keep caches in sync with edits made while the server runs
+    if (this.config.watch !== false) {
+      this.index.startWatching();
+    }
+
     // Log server start (to stderr to not interfere with stdio)
     console.error(`stdio MCP server started for workspace: ${this.config.workspacePath}`);
   }
@@ -491,18 +649,30 @@ export class StdioServer {
    * Stop the server
    */
   async stop(): Promise<void> {
+    await this.index.close();
     await this.server.close();
     console.error("stdio MCP server stopped");
   }
 
+  /**
+   * Discard the on-disk index and re-index the whole workspace
+   */
+  async rebuildIndex(): Promise<number> {
+    return this.index.rebuild();
+  }
+
+  /**
+   * Invalidate every cache entry derived from a file
+   */
+  invalidateFile(filePath: string): void {
+    this.index.invalidate(filePath);
+  }
+
   /**
    * Clear all caches
    */
   clearCaches(): void {
-    this.existenceTools.clearCache();
-    this.apiValidationTools.clearCache();
-    this.postReviewTools.clearCache();
+    this.index.clearCache();
     this.codebaseResource.clearCache();
-    this.exportsResource.clearCache();
   }
 }
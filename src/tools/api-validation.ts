@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { SignatureValidator } from "../analyzers/index.js";
+import { SignatureValidator, WorkspaceIndex } from "../analyzers/index.js";
 import {
   VerifyApiUsageSchema,
 } from "../types/schemas.js";
@@ -13,9 +13,9 @@ export class APIValidationTools {
   private signatureValidator: SignatureValidator;
   private workspacePath: string;
 
-  constructor(config: ServerConfig) {
+  constructor(config: ServerConfig, index?: WorkspaceIndex) {
     this.workspacePath = config.workspacePath;
-    this.signatureValidator = new SignatureValidator();
+    this.signatureValidator = (index || new WorkspaceIndex(config)).getSignatureValidator();
   }
 
   /**
@@ -83,6 +83,52 @@ export class APIValidationTools {
     }
   }
 
+  /**
+   * Verify that an installed package exports a name, using its declaration files
+   */
+  async verifyPackageExport(input: {
+    library: string;
+    exportName: string;
+  }): Promise<ToolResponse> {
+    try {
+      const { library, exportName } = input;
+      const result = this.signatureValidator.validatePackageExport(library, exportName);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                library,
+                exportName,
+                verifiable: result !== null,
+                valid: result ? result.valid : true,
+                errors: result?.errors || [],
+                suggestions: result?.suggestions || [],
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              error: "Failed to verify package export",
+              details: error instanceof Error ? error.message : String(error),
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
   /**
    * Validate a code snippet for API usage issues
    */
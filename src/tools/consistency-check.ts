@@ -3,18 +3,28 @@
  */
 
 import { z } from "zod";
+import { existsSync } from "fs";
+import { isAbsolute, relative, resolve } from "path";
 import {
   DetectContradictionsSchema,
   CheckLogicalConsistencySchema,
   ValidateTypeConsistencySchema,
 } from "../types/schemas.js";
-import { ToolResponse, HallucinationIssue, ServerConfig } from "../types/index.js";
+import { ToolResponse, HallucinationIssue, ScopeBinding, ServerConfig, AnalysisError } from "../types/index.js";
+import { ASTAnalyzer, findParamDrift } from "../analyzers/index.js";
+
+/**
+ * Declared types whose literal values are plain to see
+ */
+const PRIMITIVE_TYPES = new Set(["string", "number", "boolean"]);
 
 export class ConsistencyCheckTools {
   private workspacePath: string;
+  private analyzer: ASTAnalyzer;
 
   constructor(config: ServerConfig) {
     this.workspacePath = config.workspacePath;
+    this.analyzer = new ASTAnalyzer();
   }
 
   /**
@@ -108,10 +118,13 @@ export class ConsistencyCheckTools {
   async checkLogicalConsistency(input: {
     codeBlocks: string[];
     assertions?: string[];
+    targetFile?: string;
+    insertAtLine?: number;
   }): Promise<ToolResponse> {
     try {
       const validated = CheckLogicalConsistencySchema.parse(input);
-      const { codeBlocks, assertions } = validated;
+      const { codeBlocks, assertions, targetFile, insertAtLine } = validated;
+      const target = targetFile ? this.getTargetScope(targetFile, insertAtLine) : undefined;
 
       const inconsistencies: Array<{
         location: string;
@@ -144,6 +157,24 @@ export class ConsistencyCheckTools {
           severity: "warning" as const,
           confidence: 0.7,
         })));
+
+        // Check that JSDoc @param tags still describe the real parameters
+        inconsistencies.push(...this.checkDocumentationDrift(block).map((issue) => ({
+          location: `Block ${i + 1}`,
+          issue,
+          severity: "warning" as const,
+          confidence: 0.8,
+        })));
+
+        // Names the target file already declares or imports where the block goes
+        if (target) {
+          inconsistencies.push(...this.checkRedeclarations(block, target).map((issue) => ({
+            location: `Block ${i + 1}`,
+            issue,
+            severity: "error" as const,
+            confidence: 0.85,
+          })));
+        }
       }
 
       // Check consistency between blocks
@@ -222,10 +253,13 @@ export class ConsistencyCheckTools {
     code: string;
     filePath?: string;
     language: string;
+    targetFile?: string;
+    insertAtLine?: number;
   }): Promise<ToolResponse> {
     try {
       const validated = ValidateTypeConsistencySchema.parse(input);
-      const { code, filePath, language } = validated;
+      const { code, filePath, language, targetFile, insertAtLine } = validated;
+      const target = targetFile ? this.getTargetScope(targetFile, insertAtLine) : undefined;
 
       const typeErrors: Array<{
         location: string;
@@ -233,8 +267,14 @@ export class ConsistencyCheckTools {
         confidence: number;
       }> = [];
 
-      // Extract type annotations and check for consistency
-      const typeAnnotations = this.extractTypeAnnotations(code);
+      // Extract type annotations and check for consistency; the code can use the
+      // variables in scope where it goes in the target file
+      const typeAnnotations = [
+        ...this.extractTypeAnnotations(code),
+        ...(target?.bindings ?? [])
+          .filter((binding) => binding.type && PRIMITIVE_TYPES.has(binding.type))
+          .map((binding) => ({ variable: binding.name, type: binding.type! })),
+      ];
 
       // Check for mismatched type usages
       for (const annotation of typeAnnotations) {
@@ -261,7 +301,7 @@ export class ConsistencyCheckTools {
                 typeErrors,
                 count: typeErrors.length,
                 language,
-                filePath,
+                filePath: filePath ?? target?.path,
               },
               null,
               2
@@ -402,6 +442,70 @@ export class ConsistencyCheckTools {
     return contradictions;
   }
 
+  /**
+   * Find functions whose JSDoc @param tags no longer match their parameters
+   */
+  private checkDocumentationDrift(code: string): string[] {
+    const filePath = `${this.workspacePath}/__consistency-block__.tsx`;
+    try {
+      const ast = this.analyzer.parse(code, filePath);
+      return this.analyzer.extractFunctionSignatures(ast, filePath).flatMap((signature) => findParamDrift(signature));
+    } catch (error) {
+      // Fragments that don't parse can't be checked
+      return [];
+    } finally {
+      this.analyzer.invalidate(filePath);
+    }
+  }
+
+  /**
+   * Bindings in scope where code goes in a workspace file; none when the file is new
+   * or doesn't parse
+   */
+  private getTargetScope(targetFile: string, insertAtLine?: number): { path: string; bindings: ScopeBinding[] } {
+    const filePath = resolve(this.workspacePath, targetFile);
+    const relativePath = relative(this.workspacePath, filePath);
+    if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+      throw new AnalysisError("Target file is outside the workspace", targetFile);
+    }
+    if (!existsSync(filePath)) {
+      return { path: relativePath, bindings: [] };
+    }
+
+    try {
+      return { path: relativePath, bindings: this.analyzer.getBindingsAt(this.analyzer.parseFile(filePath), insertAtLine) };
+    } catch (error) {
+      return { path: relativePath, bindings: [] };
+    } finally {
+      this.analyzer.invalidate(filePath);
+    }
+  }
+
+  /**
+   * Find top-level declarations in a block that the target file already declares or
+   * imports in the scope the block goes into
+   */
+  private checkRedeclarations(code: string, target: { path: string; bindings: ScopeBinding[] }): string[] {
+    const existing = new Map(target.bindings.filter((binding) => binding.own).map((binding) => [binding.name, binding]));
+    const filePath = `${this.workspacePath}/__consistency-block__.tsx`;
+    try {
+      const declared = this.analyzer.getBindingsAt(this.analyzer.parse(code, filePath));
+      return declared.flatMap((binding) => {
+        const previous = existing.get(binding.name);
+        if (!previous) return [];
+        const at = previous.line ? ` (line ${previous.line})` : "";
+        return previous.kind === "module"
+          ? [`'${binding.name}' is already imported by ${target.path}${at}`]
+          : [`'${binding.name}' is already declared in ${target.path}${at}`];
+      });
+    } catch (error) {
+      // Fragments that don't parse can't be checked
+      return [];
+    } finally {
+      this.analyzer.invalidate(filePath);
+    }
+  }
+
   /**
    * Extract variable declarations from code
    */
@@ -587,8 +691,18 @@ export class ConsistencyCheckTools {
   }> {
     const usages: Array<{ location: string; type: string }> = [];
 
-    // This is a simplified implementation
-    // A real implementation would use AST analysis
+    // Assignments of literals, whose type is plain to see
+    const escaped = variable.replace(/\$/g, "\\$");
+    const pattern = new RegExp(`(?<![\\w$.])${escaped}\\s*=(?![=>])\\s*(["'\`]|-?\\d|true\\b|false\\b)`, "g");
+    let match;
+
+    while ((match = pattern.exec(code)) !== null) {
+      const value = match[1];
+      usages.push({
+        location: `Line ${code.slice(0, match.index).split("\n").length}`,
+        type: /^["'`]/.test(value) ? "string" : /^-?\d/.test(value) ? "number" : "boolean",
+      });
+    }
 
     return usages;
   }
@@ -3,10 +3,8 @@
  */
 
 import { z } from "zod";
-import { readdirSync, statSync } from "fs";
-import { join, relative, extname } from "path";
-import glob from "fast-glob";
-import { ASTAnalyzer, ImportTracker } from "../analyzers/index.js";
+import { relative } from "path";
+import { ClassHierarchy, ImportTracker, WorkspaceIndex, getQualifiedName } from "../analyzers/index.js";
 import {
   Schemas,
   VerifySymbolExistsSchema,
@@ -15,17 +13,36 @@ import {
 } from "../types/schemas.js";
 import { ToolResponse, SymbolInfo } from "../types/index.js";
 import { ServerConfig } from "../types/index.js";
+import { calculateSimilarity, findClosestMatches } from "../utils/similarity.js";
+import { findClosestSignature, formatSignature, getArity } from "../utils/signatures.js";
+
+/**
+ * Prefer module-level matches over locals
+ */
+const SCOPE_RANK: Record<SymbolInfo["scope"], number> = { module: 0, class: 1, function: 2 };
+
+/**
+ * Names imported from a local module that it doesn't export
+ */
+interface ImportedNamesResponse {
+  importPath: string;
+  fromFile: string;
+  verifiable: boolean; // False for packages, unresolved paths and CommonJS modules
+  resolvedPath?: string;
+  missing: Array<{ name: string; suggestion?: string }>;
+}
 
 export class ExistenceCheckTools {
-  private analyzer: ASTAnalyzer;
+  private index: WorkspaceIndex;
   private importTracker: ImportTracker;
+  private hierarchy: ClassHierarchy;
   private workspacePath: string;
-  private symbolCache: Map<string, SymbolInfo[]> = new Map();
 
-  constructor(config: ServerConfig) {
+  constructor(config: ServerConfig, index?: WorkspaceIndex) {
     this.workspacePath = config.workspacePath;
-    this.analyzer = new ASTAnalyzer();
-    this.importTracker = new ImportTracker(this.workspacePath);
+    this.index = index || new WorkspaceIndex(config);
+    this.importTracker = this.index.getImportTracker();
+    this.hierarchy = new ClassHierarchy(this.index);
   }
 
   /**
@@ -34,27 +51,33 @@ export class ExistenceCheckTools {
   async verifySymbolExists(input: {
     symbol: string;
     filePath?: string;
-    symbolType?: "function" | "class" | "variable" | "import" | "type" | "interface";
+    symbolType?: SymbolInfo["type"];
+    includeLocals?: boolean;
   }): Promise<ToolResponse> {
     try {
       const validated = VerifySymbolExistsSchema.parse(input);
-      const { symbol, filePath, symbolType } = validated;
+      const { symbol, filePath, symbolType, includeLocals } = validated;
 
-      // Build symbol index if not cached
-      if (this.symbolCache.size === 0) {
-        await this.buildSymbolIndex();
+      // `UserRepo.save` names a member, which may be inherited
+      if (symbol.includes(".")) {
+        return await this.verifyMemberExists(symbol, filePath, symbolType);
       }
 
+      const symbolIndex = await this.index.getAllSymbols();
+      // Members only match by their qualified name, and a function's locals aren't
+      // visible anywhere else, so they don't count by default
+      const isVisible = (s: SymbolInfo) => s.scope === "module" || (includeLocals && s.scope === "function");
+
       let results: SymbolInfo[] = [];
 
       // Filter by file path if provided
       if (filePath) {
-        const fileSymbols = this.symbolCache.get(filePath) || [];
-        results = fileSymbols.filter((s) => s.name === symbol);
+        const fileSymbols = symbolIndex.get(filePath) || [];
+        results = fileSymbols.filter((s) => s.name === symbol && isVisible(s));
       } else {
         // Search all files
-        for (const fileSymbols of this.symbolCache.values()) {
-          results.push(...fileSymbols.filter((s) => s.name === symbol));
+        for (const fileSymbols of symbolIndex.values()) {
+          results.push(...fileSymbols.filter((s) => s.name === symbol && isVisible(s)));
         }
       }
 
@@ -70,7 +93,7 @@ export class ExistenceCheckTools {
         const sorted = results.sort((a, b) => {
           if (a.exported && !b.exported) return -1;
           if (!a.exported && b.exported) return 1;
-          return 0;
+          return SCOPE_RANK[a.scope] - SCOPE_RANK[b.scope];
         });
 
         const bestMatch = sorted[0];
@@ -82,11 +105,7 @@ export class ExistenceCheckTools {
               text: JSON.stringify(
                 {
                   exists: true,
-                  symbol: bestMatch.name,
-                  type: bestMatch.type,
-                  location: `${bestMatch.filePath}:${bestMatch.line || 0}`,
-                  exported: bestMatch.exported,
-                  signature: bestMatch.signature,
+                  ...this.describeSymbol(bestMatch),
                   otherMatches: results.length > 1 ? results.length - 1 : 0,
                 },
                 null,
@@ -97,7 +116,7 @@ export class ExistenceCheckTools {
         };
       } else {
         // Try to find similar symbols (suggestions)
-        const suggestions = this.findSimilarSymbols(symbol, filePath, symbolType);
+        const suggestions = this.findSimilarSymbols(symbolIndex, symbol, filePath, symbolType, includeLocals);
 
         return {
           content: [
@@ -147,6 +166,133 @@ export class ExistenceCheckTools {
     }
   }
 
+  /**
+   * Verify that a class, interface, namespace or object has a member, following
+   * `extends` and `implements` chains for inherited members
+   */
+  private async verifyMemberExists(
+    symbol: string,
+    filePath?: string,
+    symbolType?: SymbolInfo["type"]
+  ): Promise<ToolResponse> {
+    const separator = symbol.lastIndexOf(".");
+    const ownerName = symbol.slice(0, separator);
+    const memberName = symbol.slice(separator + 1);
+
+    const owner = await this.hierarchy.findOwner(ownerName, filePath);
+    if (!owner) {
+      const suggestions = this.findSimilarSymbols(await this.index.getAllSymbols(), ownerName);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                exists: false,
+                symbol,
+                error: `No class, interface, namespace or object named '${ownerName}' found`,
+                suggestion: suggestions.length > 0 ? suggestions : undefined,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const table = await this.hierarchy.getMembers(owner);
+    const matches = table.members.filter(
+      (m) =>
+        m.member.name === memberName && (!symbolType || symbolType === "import" || m.member.type === symbolType)
+    );
+
+    if (matches.length > 0) {
+      const { member, owner: declaredBy, inherited } = matches[0];
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                exists: true,
+                ...this.describeSymbol(member),
+                owner: getQualifiedName(declaredBy),
+                inherited,
+                visibility: member.visibility,
+                static: member.static,
+                readonly: member.readonly,
+                otherMatches: matches.length - 1,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const qualifiedOwner = getQualifiedName(owner);
+    const closest = findClosestMatches(
+      memberName,
+      table.members.map((m) => m.member.name),
+      { threshold: 0.5, limit: 3 }
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              exists: false,
+              symbol,
+              owner: qualifiedOwner,
+              ownerLocation: `${owner.filePath}:${owner.line || 0}`,
+              suggestion: closest.length > 0 ? closest.map((name) => `${qualifiedOwner}.${name}`) : undefined,
+              // Members of bases outside the workspace can't be checked
+              unresolvedBases: table.unresolvedBases.length > 0 ? table.unresolvedBases : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Describe a matched symbol, warning about deprecated and internal APIs
+   */
+  private describeSymbol(symbol: SymbolInfo): Record<string, unknown> {
+    const jsdoc = symbol.jsdoc;
+
+    // Warn before an agent builds on an API its authors want gone
+    let warning: string | undefined;
+    if (jsdoc?.deprecated) {
+      warning = `'${symbol.name}' is deprecated${jsdoc.deprecationMessage ? `: ${jsdoc.deprecationMessage}` : ""}`;
+    } else if (jsdoc?.internal) {
+      warning = `'${symbol.name}' is marked @internal and is not part of the public API`;
+    }
+
+    return {
+      symbol: symbol.name,
+      type: symbol.type,
+      location: `${symbol.filePath}:${symbol.line || 0}`,
+      exported: symbol.exported,
+      scope: symbol.scope,
+      parent: symbol.parent,
+      signature: symbol.signature,
+      description: jsdoc?.description,
+      deprecated: jsdoc?.deprecated || undefined,
+      deprecationMessage: jsdoc?.deprecationMessage,
+      internal: jsdoc?.internal || undefined,
+      warning,
+    };
+  }
+
   /**
    * Validate an import path
    */
@@ -154,12 +300,16 @@ export class ExistenceCheckTools {
     importPath: string;
     fromFile: string;
     resolveAliases?: boolean;
+    typeOnly?: boolean;
   }): Promise<ToolResponse> {
     try {
       const validated = ValidateImportPathSchema.parse(input);
-      const { importPath, fromFile, resolveAliases } = validated;
+      const { importPath, fromFile, resolveAliases, typeOnly } = validated;
 
-      const result = this.importTracker.resolveImportPath(importPath, fromFile);
+      const result = this.importTracker.resolveImportPath(importPath, fromFile, {
+        resolveAliases,
+        typeOnly,
+      });
 
       const response: any = {
         importPath,
@@ -170,14 +320,19 @@ export class ExistenceCheckTools {
       if (result.exists) {
         response.resolvedPath = result.resolvedPath;
         response.relativePath = relative(this.workspacePath, result.resolvedPath!);
+        if (result.warning) {
+          response.warning = result.warning;
+        }
       } else {
         response.error = result.error;
         response.alternatives = result.alternatives;
 
-        // Try to find similar files
-        const similarFiles = this.findSimilarFiles(importPath, fromFile);
-        if (similarFiles.length > 0) {
-          response.alternatives = similarFiles;
+        // Try to find similar files unless the resolver already knows the fix
+        if (!result.alternatives || result.alternatives.length === 0) {
+          const similarFiles = await this.findSimilarFiles(importPath, fromFile);
+          if (similarFiles.length > 0) {
+            response.alternatives = similarFiles;
+          }
         }
       }
 
@@ -220,6 +375,64 @@ export class ExistenceCheckTools {
     }
   }
 
+  /**
+   * Verify that names imported from a local module are actually exported by it
+   */
+  async verifyImportedNames(input: {
+    importPath: string;
+    fromFile: string;
+    names: string[];
+  }): Promise<ToolResponse> {
+    const { importPath, fromFile, names } = input;
+    const result = this.importTracker.resolveImportPath(importPath, fromFile, { resolveAliases: true });
+
+    const response: ImportedNamesResponse = {
+      importPath,
+      fromFile,
+      verifiable: false,
+      missing: [],
+    };
+
+    // Only parseable source files can be checked; packages have their own check
+    if (!result.exists || !result.resolvedPath || !this.importTracker.isSourceFile(result.resolvedPath)) {
+      return { content: [{ type: "text", text: JSON.stringify(response, null, 2) }] };
+    }
+
+    const available = this.importTracker.getAvailableExports(result.resolvedPath);
+    response.resolvedPath = result.resolvedPath;
+
+    // CommonJS modules have no ES exports to compare against
+    if (available.length === 0) {
+      return { content: [{ type: "text", text: JSON.stringify(response, null, 2) }] };
+    }
+
+    response.verifiable = true;
+    for (const name of new Set(names)) {
+      const resolution = this.importTracker.resolveExport(result.resolvedPath, name);
+      if (resolution.found || resolution.unverifiable) continue;
+
+      const candidates = available.filter((exp) => exp !== "default");
+      response.missing.push({
+        name,
+        suggestion:
+          name === "default"
+            ? candidates.length > 0
+              ? `Module has no default export; use a named import such as { ${candidates[0]} }`
+              : undefined
+            : findClosestMatches(name, candidates, { threshold: 0.5, limit: 1 })[0],
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
   /**
    * Check function signature
    */
@@ -252,16 +465,11 @@ export class ExistenceCheckTools {
         };
       }
 
-      // Build symbol index if not cached
-      if (this.symbolCache.size === 0) {
-        await this.buildSymbolIndex();
-      }
-
-      // Find the function
-      const fileSymbols = this.symbolCache.get(filePath) || [];
-      const functionSymbol = fileSymbols.find(
-        (s) => s.name === functionName && s.type === "function"
-      );
+      // Find the function, or the class whose constructor `new functionName(...)` calls
+      const fileSymbols = await this.index.getSymbols(filePath);
+      const functionSymbol =
+        fileSymbols.find((s) => s.name === functionName && s.type === "function") ||
+        fileSymbols.find((s) => s.name === functionName && s.type === "class" && s.scope !== "function");
 
       if (!functionSymbol) {
         return {
@@ -283,17 +491,29 @@ export class ExistenceCheckTools {
         };
       }
 
-      // Compare signature
-      const expectedSignature = functionSymbol.signature || "";
-      const actualSignature = `${functionName}(${args.join(", ")})`;
+      const isClass = functionSymbol.type === "class";
+
+      // Parsed signatures, since types can contain commas and parens. Constructors may be
+      // inherited, and with overloads any signature the call fits is a match.
+      const candidates = isClass
+        ? (await this.hierarchy.getConstructorSignatures(functionSymbol)) || []
+        : this.index.getSignatures(filePath).filter((sig) => sig.name === functionName && !sig.isConstructor);
+      const parsed = findClosestSignature(candidates, args.length);
 
-      // Basic parameter count check
-      const paramMatch = expectedSignature.match(/\(([^)]*)\)/);
-      const expectedParamCount = paramMatch
-        ? paramMatch[1].split(",").filter((p) => p.trim() && !p.includes("?")).length
-        : 0;
+      // Compare against the overload the call fits, or the one closest to it
+      const expectedSignature = parsed
+        ? formatSignature(isClass ? { ...parsed, name: functionName } : parsed)
+        : isClass
+          ? ""
+          : functionSymbol.signature || "";
+      const actualSignature = `${isClass ? "new " : ""}${functionName}(${args.join(", ")})`;
 
-      const valid = args.length >= expectedParamCount;
+      // Defaulted and rest parameters are optional, and a rest parameter takes any number of arguments
+      const { min: expectedParamCount, max: maxParamCount } = parsed ? getArity(parsed) : { min: 0, max: Infinity };
+
+      const tooFew = args.length < expectedParamCount;
+      const tooMany = args.length > maxParamCount;
+      const valid = !tooFew && !tooMany;
 
       return {
         content: [
@@ -307,9 +527,13 @@ export class ExistenceCheckTools {
                 expectedSignature,
                 location: `${filePath}:${functionSymbol.line || 0}`,
                 exported: functionSymbol.exported,
-                suggestion: !valid
+                // Constructors declared by a base class
+                inheritedFrom: isClass && parsed && parsed.parent !== getQualifiedName(functionSymbol) ? parsed.parent : undefined,
+                suggestion: tooFew
                   ? `Expected at least ${expectedParamCount} arguments, got ${args.length}`
-                  : undefined,
+                  : tooMany
+                    ? `Expected at most ${maxParamCount} arguments, got ${args.length}`
+                    : undefined,
               },
               null,
               2
@@ -348,60 +572,30 @@ export class ExistenceCheckTools {
     }
   }
 
-  /**
-   * Build symbol index for the entire workspace
-   */
-  private async buildSymbolIndex(): Promise<void> {
-    const files = await this.getSourceFiles();
-
-    for (const filePath of files) {
-      try {
-        const ast = this.analyzer.parseFile(filePath);
-        const symbols = this.analyzer.extractSymbols(ast, filePath);
-        if (symbols.length > 0) {
-          this.symbolCache.set(filePath, symbols);
-        }
-      } catch (error) {
-        // Skip files that can't be parsed
-        continue;
-      }
-    }
-  }
-
-  /**
-   * Get all source files in the workspace
-   */
-  private async getSourceFiles(): Promise<string[]> {
-    const extensions = ["ts", "tsx", "js", "jsx", "mts", "mjs", "cjs"];
-    const patterns = extensions.map((ext) => `**/*.${ext}`);
-
-    return glob(patterns, {
-      cwd: this.workspacePath,
-      absolute: true,
-      ignore: ["**/node_modules/**", "**/dist/**", "**/build/**", "**/.git/**"],
-    });
-  }
-
   /**
    * Find similar symbols (for suggestions)
    */
   private findSimilarSymbols(
+    symbolIndex: Map<string, SymbolInfo[]>,
     symbol: string,
     filePath?: string,
-    symbolType?: string
+    symbolType?: string,
+    includeLocals: boolean = false
   ): string[] {
     const suggestions: string[] = [];
     const threshold = 0.6; // Similarity threshold
 
-    for (const [file, symbols] of this.symbolCache.entries()) {
+    for (const [file, symbols] of symbolIndex.entries()) {
       if (filePath && file !== filePath) continue;
 
       for (const s of symbols) {
         if (symbolType && s.type !== symbolType) continue;
+        if (!includeLocals && s.scope === "function") continue;
 
-        const similarity = this.calculateSimilarity(symbol, s.name);
+        const similarity = calculateSimilarity(symbol, s.name);
         if (similarity >= threshold) {
-          suggestions.push(`${s.name} (${s.type} in ${relative(this.workspacePath, file)})`);
+          const name = getQualifiedName(s);
+          suggestions.push(`${name} (${s.type} in ${relative(this.workspacePath, file)})`);
         }
       }
     }
@@ -412,68 +606,27 @@ export class ExistenceCheckTools {
   /**
    * Find similar files
    */
-  private findSimilarFiles(importPath: string, fromFile: string): string[] {
+  private async findSimilarFiles(importPath: string, fromFile: string): Promise<string[]> {
     // This is a simplified implementation
     // A real implementation would use more sophisticated fuzzy matching
     const suggestions: string[] = [];
 
-    const fromDir = join(this.workspacePath, importPath);
     const targetName = importPath.split("/").pop() || "";
 
-    try {
-      const files = readdirSync(this.workspacePath, { recursive: true }) as string[];
-
-      for (const file of files) {
-        if (file.includes(targetName) && file !== targetName) {
-          suggestions.push(file);
-        }
+    for (const filePath of await this.index.getSourceFiles()) {
+      const file = relative(this.workspacePath, filePath);
+      if (file.includes(targetName) && file !== targetName) {
+        suggestions.push(file);
       }
-    } catch (error) {
-      // Ignore errors
     }
 
     return suggestions.slice(0, 5);
   }
 
-  /**
-   * Calculate string similarity (Levenshtein distance)
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    const len1 = str1.length;
-    const len2 = str2.length;
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= len1; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= len2; j++) {
-      matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= len1; i++) {
-      for (let j = 1; j <= len2; j++) {
-        if (str1.charAt(i - 1) === str2.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          );
-        }
-      }
-    }
-
-    const maxLen = Math.max(len1, len2);
-    return 1 - matrix[len1][len2] / maxLen;
-  }
-
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.symbolCache.clear();
-    this.analyzer.clearCache();
-    this.importTracker.clearCache();
+    this.index.clearCache();
   }
 }
@@ -3,27 +3,106 @@
  */
 
 import { z } from "zod";
+import { existsSync, readFileSync } from "fs";
+import { extname, isAbsolute, relative, resolve } from "path";
 import {
   ReviewCodeForHallucinationsSchema,
+  ReviewPatchSchema,
+  ReviewWorkingChangesSchema,
   ValidateFactualClaimsSchema,
 } from "../types/schemas.js";
-import { ToolResponse, HallucinationIssue, ServerConfig } from "../types/index.js";
+import { ToolResponse, HallucinationIssue, OverlayFile, ServerConfig, AnalysisError } from "../types/index.js";
 import { ExistenceCheckTools } from "./existence-check.js";
 import { ConsistencyCheckTools } from "./consistency-check.js";
 import { APIValidationTools } from "./api-validation.js";
-import glob from "fast-glob";
+import {
+  MemberAccessIssue,
+  MemberAccessValidator,
+  ProgramTypeChecker,
+  TypeDiagnostic,
+  WorkspaceIndex,
+} from "../analyzers/index.js";
+import { applyFilePatch, getAddedLines, parseUnifiedDiff, runGit } from "../utils/index.js";
+import { builtinModules } from "module";
+
+/**
+ * Languages of the source files a patch is reviewed in, by extension
+ */
+const PATCH_LANGUAGES: Record<string, "typescript" | "tsx" | "javascript" | "jsx"> = {
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "tsx",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "jsx",
+};
+
+/**
+ * Compiler diagnostics that report the same problem as each kind of member issue
+ */
+const MEMBER_ISSUE_DIAGNOSTICS: Record<MemberAccessIssue["kind"], number[]> = {
+  "missing-member": [2339, 2551, 2576], // Property does not exist (or is static)
+  "inaccessible-member": [2341, 2445], // Property is private or protected
+  "unknown-property": [2353, 2561], // Object literal may only specify known properties
+  "argument-count": [2554, 2555, 2769], // Expected N arguments, no overload matches
+  "missing-property": [2739, 2740, 2741], // Property is missing in type
+  "property-type": [2322], // Type is not assignable to type
+};
+
+/**
+ * Which checks a review runs
+ */
+interface ReviewChecks {
+  checkImports: boolean;
+  checkSignatures: boolean;
+  checkTypes: boolean;
+  typeCheck: boolean;
+}
+
+/**
+ * Where reviewed code lives, and which of its checks to run
+ */
+interface ReviewScope extends ReviewChecks {
+  filePath: string; // Imports and types resolve as if the code were this file
+  displayPath: string; // Reported as the location of issues
+  lines?: Set<number>; // Only review these lines (1-based); the whole code when omitted
+  language: string;
+  context?: string;
+}
+
+/**
+ * A changed source file, and its lines to review
+ */
+interface ChangedFile {
+  path: string; // Absolute
+  content: string;
+  lines?: Set<number>; // Every line when omitted, as for untracked files
+  language: string;
+}
 
 export class PostReviewTools {
   private existenceTools: ExistenceCheckTools;
   private consistencyTools: ConsistencyCheckTools;
   private apiValidationTools: APIValidationTools;
+  private memberValidator: MemberAccessValidator;
+  private typeChecker: ProgramTypeChecker;
+  private index: WorkspaceIndex;
   private workspacePath: string;
+  private typeCheck: boolean;
 
-  constructor(config: ServerConfig) {
+  constructor(config: ServerConfig, index?: WorkspaceIndex) {
     this.workspacePath = config.workspacePath;
-    this.existenceTools = new ExistenceCheckTools(config);
+    this.typeCheck = config.typeCheck ?? false;
+
+    // Sub-tools share one index so a review sees the same workspace as every other tool
+    this.index = index || new WorkspaceIndex(config);
+    this.existenceTools = new ExistenceCheckTools(config, this.index);
     this.consistencyTools = new ConsistencyCheckTools(config);
-    this.apiValidationTools = new APIValidationTools(config);
+    this.apiValidationTools = new APIValidationTools(config, this.index);
+    this.memberValidator = new MemberAccessValidator(this.index);
+    this.typeChecker = new ProgramTypeChecker(this.index);
   }
 
   /**
@@ -36,6 +115,10 @@ export class PostReviewTools {
     checkImports?: boolean;
     checkSignatures?: boolean;
     checkTypes?: boolean;
+    typeCheck?: boolean;
+    files?: OverlayFile[];
+    targetFile?: string;
+    insertAtLine?: number;
   }): Promise<ToolResponse> {
     try {
       const validated = ReviewCodeForHallucinationsSchema.parse(input);
@@ -46,145 +129,346 @@ export class PostReviewTools {
         checkImports = true,
         checkSignatures = true,
         checkTypes = true,
+        typeCheck = this.typeCheck,
+        files,
+        targetFile,
+        insertAtLine,
       } = validated;
 
-      const issues: HallucinationIssue[] = [];
+      // Proposed files stand in for the disk during this review only
+      if (files && files.length > 0) {
+        return await this.index.withOverlay(files as OverlayFile[], () =>
+          this.reviewCodeForHallucinations({ ...input, files: undefined })
+        );
+      }
 
-      // 1. Check for missing symbols (hallucinated functions/classes/variables)
-      const symbols = this.extractSymbolsFromCode(code);
-      for (const symbol of symbols) {
-        const result = await this.existenceTools.verifySymbolExists({
-          symbol: symbol.name,
-          symbolType: symbol.type,
+      const checks = { language, context, checkImports, checkSignatures, checkTypes, typeCheck };
+
+      // Reviewed in place: the target file's imports and declarations are in scope, and
+      // issues are located at the lines the code will occupy
+      if (targetFile) {
+        const target = this.insertIntoTarget(code, targetFile, insertAtLine);
+        const review = await this.reviewSource(target.content, {
+          ...checks,
+          filePath: target.filePath,
+          displayPath: target.path,
+          lines: target.lines,
         });
+        const issues = [...target.issues, ...review.issues];
+        const { typeChecked } = review;
 
-        const resultData = JSON.parse(result.content[0].text);
-        if (!resultData.exists) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  targetFile: target.path,
+                  issues,
+                  ...this.summarizeIssues(issues),
+                  ...this.describeTypeCheck(typeCheck, typeChecked),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      const { issues, typeChecked } = await this.reviewSource(code, {
+        ...checks,
+        filePath: `${this.workspacePath}/__review__.${language === "tsx" || language === "jsx" ? "tsx" : "ts"}`,
+        displayPath: "<snippet>",
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { issues, ...this.summarizeIssues(issues), ...this.describeTypeCheck(typeCheck, typeChecked) },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: "Invalid input",
+                details: error.errors,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              error: "Failed to review code for hallucinations",
+              details: error instanceof Error ? error.message : String(error),
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Review a unified diff: apply it to the workspace in memory, then review the added
+   * and changed lines of every patched source file. Hunks that don't apply mean the
+   * patch was written against content the files don't have.
+   */
+  async reviewPatch(input: {
+    patch: string;
+    checkImports?: boolean;
+    checkSignatures?: boolean;
+    checkTypes?: boolean;
+    typeCheck?: boolean;
+  }): Promise<ToolResponse> {
+    try {
+      const validated = ReviewPatchSchema.parse(input);
+      const {
+        patch,
+        checkImports = true,
+        checkSignatures = true,
+        checkTypes = true,
+        typeCheck = this.typeCheck,
+      } = validated;
+
+      const filePatches = parseUnifiedDiff(patch);
+      if (filePatches.length === 0) {
+        throw new AnalysisError("The patch doesn't change any files");
+      }
+
+      const issues: HallucinationIssue[] = [];
+      const files: Array<{
+        path: string;
+        status: "added" | "modified" | "deleted";
+        hunks: number;
+        failedHunks: number;
+        addedLines: number;
+        reviewed: boolean;
+      }> = [];
+      const patched: ChangedFile[] = [];
+      const overlay: OverlayFile[] = [];
+
+      for (const filePatch of filePatches) {
+        const path = filePatch.newPath ?? filePatch.oldPath;
+        if (!path) continue;
+
+        const filePath = this.resolveWorkspacePath(path, "Patched file");
+        const relativePath = relative(this.workspacePath, filePath);
+
+        const status = !filePatch.oldPath ? "added" : !filePatch.newPath ? "deleted" : "modified";
+        const original = filePatch.oldPath ? this.readWorkspaceFile(filePatch.oldPath) : undefined;
+        const result = applyFilePatch(original, filePatch);
+
+        if (status === "added" && existsSync(filePath)) {
           issues.push({
-            type: "missing-symbol",
+            type: "contradiction",
             severity: "error",
-            message: `Symbol '${symbol.name}' does not exist in the codebase`,
-            suggestion: resultData.suggestion?.[0] || `Check if '${symbol.name}' is spelled correctly or needs to be imported`,
+            message: `The patch creates '${relativePath}', which already exists`,
+            location: { filePath: relativePath },
+            suggestion: "Patch the existing file instead of creating it",
             confidence: 0.9,
           });
         }
-      }
-
-      // 2. Check imports
-      if (checkImports) {
-        const imports = this.extractImportsFromCode(code);
-        for (const imp of imports) {
-          // Skip node_modules and built-in imports
-          if (
-            !imp.path.startsWith(".") &&
-            !imp.path.startsWith("/") &&
-            !imp.path.startsWith("@")
-          ) {
-            continue;
-          }
 
-          const result = await this.existenceTools.validateImportPath({
-            importPath: imp.path,
-            fromFile: this.workspacePath + "/temp.ts", // Placeholder
+        for (const failed of result.failedHunks) {
+          issues.push({
+            type: "contradiction",
+            severity: "error",
+            message: `Hunk ${failed.hunk.header} does not apply to '${relativePath}': ${failed.reason}`,
+            location: { filePath: relativePath },
+            suggestion: "Re-read the file and write the patch against its current content",
+            confidence: 0.9,
           });
-
-          const resultData = JSON.parse(result.content[0].text);
-          if (!resultData.valid) {
-            issues.push({
-              type: "invalid-import",
-              severity: "error",
-              message: `Import '${imp.path}' could not be resolved`,
-              suggestion: resultData.alternatives
-                ? `Try: ${resultData.alternatives.join(", ")}`
-                : undefined,
-              confidence: 0.95,
-            });
-          }
         }
-      }
 
-      // 3. Check type consistency
-      if (checkTypes && (language === "typescript" || language === "tsx")) {
-        const typeResult = await this.consistencyTools.validateTypeConsistency({
-          code,
-          language,
+        const language = PATCH_LANGUAGES[extname(filePath)];
+        const reviewed = status !== "deleted" && !filePatch.binary && result.addedLines.length > 0 && Boolean(language);
+        files.push({
+          path: relativePath,
+          status,
+          hunks: filePatch.hunks.length,
+          failedHunks: result.failedHunks.length,
+          addedLines: result.addedLines.length,
+          reviewed,
         });
 
-        const typeData = JSON.parse(typeResult.content[0].text);
-        if (!typeData.consistent) {
-          for (const error of typeData.typeErrors) {
-            issues.push({
-              type: "type-error",
-              severity: "warning",
-              message: error.error,
-              confidence: error.confidence,
-            });
-          }
+        if (status === "deleted" || filePatch.binary) continue;
+        overlay.push({ path: filePath, content: result.content });
+        if (reviewed) {
+          patched.push({ path: filePath, content: result.content, lines: new Set(result.addedLines), language });
         }
       }
 
-      // 4. Check for contradictory statements
-      const statements = this.extractStatementsFromCode(code);
-      if (statements.length > 1) {
-        const contradictionResult =
-          await this.consistencyTools.detectContradictions({
-            statements,
-            context,
-          });
+      // Every patched file, source or not (package.json, tsconfig.json), is in place during the review
+      const review = await this.reviewChangedFiles(patched, overlay, {
+        checkImports,
+        checkSignatures,
+        checkTypes,
+        typeCheck,
+      });
+      issues.push(...review.issues);
+      const typeChecked = review.typeChecked;
 
-        const contradictionData = JSON.parse(contradictionResult.content[0].text);
-        if (contradictionData.contradictions.length > 0) {
-          for (const contradiction of contradictionData.contradictions) {
-            issues.push({
-              type: "contradiction",
-              severity: "warning",
-              message: `Contradiction detected: ${contradiction.reason}`,
-              suggestion: "Review the contradictory statements and resolve the conflict",
-              confidence: contradiction.confidence,
-            });
-          }
-        }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { files, issues, ...this.summarizeIssues(issues), ...this.describeTypeCheck(typeCheck, typeChecked) },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: "Invalid input",
+                details: error.errors,
+              }),
+            },
+          ],
+          isError: true,
+        };
       }
 
-      // 5. Check for API mismatches
-      if (checkSignatures) {
-        const apiCalls = this.extractAPICallsFromCode(code);
-        for (const call of apiCalls) {
-          if (call.library && call.api) {
-            const validationResult = await this.apiValidationTools.verifyApiUsage({
-              library: call.library,
-              api: call.api,
-              parameters: call.parameters,
-            });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              error: "Failed to review patch",
+              details: error instanceof Error ? error.message : String(error),
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
 
-            const validationData = JSON.parse(validationResult.content[0].text);
-            if (!validationData.valid) {
-              for (const error of validationData.errors || []) {
-                issues.push({
-                  type: "api-mismatch",
-                  severity: "error",
-                  message: error,
-                  confidence: 0.8,
-                });
-              }
-            }
-          }
+  /**
+   * Review the workspace's uncommitted changes: `git diff` of the working tree (or, with
+   * `staged`, the index) against HEAD or `ref`, reviewing the changed lines of every
+   * changed source file. Untracked files in the working tree are reviewed whole.
+   */
+  async reviewWorkingChanges(input: {
+    ref?: string;
+    staged?: boolean;
+    checkImports?: boolean;
+    checkSignatures?: boolean;
+    checkTypes?: boolean;
+    typeCheck?: boolean;
+  }): Promise<ToolResponse> {
+    try {
+      const validated = ReviewWorkingChangesSchema.parse(input);
+      const {
+        ref = "HEAD",
+        staged = false,
+        checkImports = true,
+        checkSignatures = true,
+        checkTypes = true,
+        typeCheck = this.typeCheck,
+      } = validated;
+
+      // Paths relative to the workspace, which can be a directory inside the repository
+      const diff = await runGit(
+        [
+          "diff",
+          "--no-color",
+          "--no-ext-diff",
+          "--relative",
+          "--unified=0",
+          "--find-renames",
+          ...(staged ? ["--cached"] : []),
+          ref,
+          "--",
+        ],
+        this.workspacePath
+      );
+
+      const files: Array<{
+        path: string;
+        status: "added" | "modified" | "deleted" | "untracked";
+        addedLines: number;
+        reviewed: boolean;
+      }> = [];
+      const changed: ChangedFile[] = [];
+      const overlay: OverlayFile[] = [];
+
+      for (const filePatch of parseUnifiedDiff(diff)) {
+        const path = filePatch.newPath ?? filePatch.oldPath;
+        if (!path) continue;
+
+        const status = !filePatch.oldPath ? "added" : !filePatch.newPath ? "deleted" : "modified";
+        const filePath = resolve(this.workspacePath, path);
+        const language = PATCH_LANGUAGES[extname(filePath)];
+        const lines = getAddedLines(filePatch);
+
+        // Staged content stands in for the working tree; otherwise the files are already on disk
+        const content =
+          status === "deleted" || filePatch.binary
+            ? undefined
+            : staged
+              ? await runGit(["show", `:./${path}`], this.workspacePath)
+              : this.readWorkspaceFile(path);
+        if (staged && content !== undefined) {
+          overlay.push({ path: filePath, content });
+        }
+
+        const reviewed = content !== undefined && lines.length > 0 && Boolean(language);
+        files.push({ path, status, addedLines: lines.length, reviewed });
+        if (reviewed) {
+          changed.push({ path: filePath, content, lines: new Set(lines), language });
         }
       }
 
-      // Calculate overall confidence
-      const confidence =
-        issues.length === 0
-          ? 1.0
-          : 1 -
-            issues.reduce((sum, issue) => sum + issue.confidence, 0) / issues.length;
+      if (!staged) {
+        const untracked = await runGit(["ls-files", "--others", "--exclude-standard", "-z"], this.workspacePath);
+        for (const path of untracked.split("\0").filter(Boolean)) {
+          const filePath = resolve(this.workspacePath, path);
+          const language = PATCH_LANGUAGES[extname(filePath)];
+          const content = language ? this.readWorkspaceFile(path) : undefined;
 
-      // Generate summary
-      const errorCount = issues.filter((i) => i.severity === "error").length;
-      const warningCount = issues.filter((i) => i.severity === "warning").length;
-      const infoCount = issues.filter((i) => i.severity === "info").length;
+          files.push({
+            path,
+            status: "untracked",
+            addedLines: content === undefined ? 0 : content.replace(/\n$/, "").split("\n").length,
+            reviewed: content !== undefined,
+          });
+          if (content !== undefined) {
+            changed.push({ path: filePath, content, language });
+          }
+        }
+      }
 
-      const summary = `Found ${issues.length} potential hallucination(s): ${errorCount} error(s), ${warningCount} warning(s), ${infoCount} info`;
+      const { issues, typeChecked } = await this.reviewChangedFiles(changed, overlay, {
+        checkImports,
+        checkSignatures,
+        checkTypes,
+        typeCheck,
+      });
 
       return {
         content: [
@@ -192,15 +476,12 @@ export class PostReviewTools {
             type: "text",
             text: JSON.stringify(
               {
+                ref,
+                staged,
+                files,
                 issues,
-                confidence: Math.max(0, confidence),
-                summary,
-                passed: issues.length === 0,
-                breakdown: {
-                  errors: errorCount,
-                  warnings: warningCount,
-                  info: infoCount,
-                },
+                ...this.summarizeIssues(issues),
+                ...this.describeTypeCheck(typeCheck, typeChecked),
               },
               null,
               2
@@ -229,7 +510,7 @@ export class PostReviewTools {
           {
             type: "text",
             text: JSON.stringify({
-              error: "Failed to review code for hallucinations",
+              error: "Failed to review working changes",
               details: error instanceof Error ? error.message : String(error),
             }),
           },
@@ -245,10 +526,15 @@ export class PostReviewTools {
   async validateFactualClaims(input: {
     claims: string[];
     domain?: string;
+    targetFile?: string;
   }): Promise<ToolResponse> {
     try {
       const validated = ValidateFactualClaimsSchema.parse(input);
-      const { claims, domain = "codebase" } = validated;
+      const { claims, domain = "codebase", targetFile } = validated;
+      // Imports in claims resolve from the target file, or from the workspace root
+      const fromFile = targetFile
+        ? this.resolveWorkspacePath(targetFile, "Target file")
+        : `${this.workspacePath}/__claims__.ts`;
 
       const validations: Array<{
         claim: string;
@@ -259,11 +545,7 @@ export class PostReviewTools {
       }> = [];
 
       // Get all files in the codebase
-      const files = await glob("**/*.{ts,tsx,js,jsx}", {
-        cwd: this.workspacePath,
-        absolute: true,
-        ignore: ["**/node_modules/**", "**/dist/**", "**/build/**", "**/.git/**"],
-      });
+      const files = await this.index.getSourceFiles();
 
       for (const claim of claims) {
         const lowerClaim = claim.toLowerCase();
@@ -316,7 +598,8 @@ export class PostReviewTools {
 
           const result = await this.existenceTools.validateImportPath({
             importPath: path,
-            fromFile: this.workspacePath + "/temp.ts",
+            fromFile,
+            resolveAliases: true,
           });
 
           const resultData = JSON.parse(result.content[0].text);
@@ -394,22 +677,600 @@ export class PostReviewTools {
     }
   }
 
+  /**
+   * Classify a compiler diagnostic by what it says about the code
+   */
+  private getDiagnosticIssueType(code: number): HallucinationIssue["type"] {
+    switch (code) {
+      case 2305: // Module has no exported member
+      case 2307: // Cannot find module
+      case 2614: // Module has no exported member (did you mean a default import?)
+      case 2724: // Module has no exported member (did you mean ...?)
+        return "invalid-import";
+      case 2304: // Cannot find name
+      case 2339: // Property does not exist on type
+      case 2551: // Property does not exist on type (did you mean ...?)
+      case 2552: // Cannot find name (did you mean ...?)
+      case 2694: // Namespace has no exported member
+        return "missing-symbol";
+      case 2345: // Argument is not assignable to parameter
+      case 2554: // Expected N arguments
+      case 2555: // Expected at least N arguments
+      case 2556: // Spread argument must have a tuple type
+      case 2769: // No overload matches this call
+        return "signature-mismatch";
+      default:
+        return "type-error";
+    }
+  }
+
+  /**
+   * Run the hallucination checks on code, locating issues at `scope.displayPath`
+   */
+  private async reviewSource(
+    code: string,
+    scope: ReviewScope
+  ): Promise<{ issues: HallucinationIssue[]; typeChecked: boolean }> {
+    const { filePath, lines, language, context, checkImports, checkSignatures, checkTypes, typeCheck } = scope;
+    const issues: HallucinationIssue[] = [];
+    const inScope = (line: number | undefined) => !lines || (line !== undefined && lines.has(line));
+    const at = (line?: number, column?: number): HallucinationIssue["location"] => ({
+      filePath: scope.displayPath,
+      line,
+      column,
+    });
+    // Checks without positions only see the reviewed lines
+    const reviewedCode = lines ? code.split("\n").filter((_, i) => lines.has(i + 1)).join("\n") : code;
+
+    // Names the code declares itself (locals, parameters, imports) aren't looked up in the workspace
+    const analyzer = this.index.getAnalyzer();
+    let declared = new Set<string>();
+    try {
+      declared = analyzer.getDeclaredNames(analyzer.parse(code, filePath));
+    } catch (error) {
+      // Fragments that don't parse have every name looked up
+    }
+
+    // 1. Check for missing symbols (hallucinated functions/classes/variables)
+    const symbols = this.extractSymbolsFromCode(code);
+    for (const symbol of symbols) {
+      if (declared.has(symbol.name) || !inScope(symbol.line)) continue;
+
+      const result = await this.existenceTools.verifySymbolExists({
+        symbol: symbol.name,
+        symbolType: symbol.type,
+      });
+
+      const resultData = JSON.parse(result.content[0].text);
+      if (!resultData.exists) {
+        issues.push({
+          type: "missing-symbol",
+          severity: "error",
+          message: `Symbol '${symbol.name}' does not exist in the codebase`,
+          location: at(symbol.line),
+          suggestion: resultData.suggestion?.[0] || `Check if '${symbol.name}' is spelled correctly or needs to be imported`,
+          confidence: 0.9,
+        });
+      } else if (resultData.deprecated) {
+        issues.push({
+          type: "api-mismatch",
+          severity: "warning",
+          message: resultData.warning,
+          location: at(symbol.line),
+          suggestion: resultData.deprecationMessage,
+          confidence: 0.8,
+        });
+      }
+    }
+
+    // The compiler's diagnostics replace the pattern-based checks below
+    let diagnostics: TypeDiagnostic[] | undefined;
+    if (checkTypes && typeCheck && (language === "typescript" || language === "tsx")) {
+      diagnostics = await this.typeChecker.check(code, filePath);
+    }
+
+    // Members used on instances of workspace classes and interfaces, on classes, enums and objects
+    // used directly, and the properties of object literals declared with an interface. Issues the
+    // compiler reports on the same line are left to it.
+    const memberIssues = (await this.memberValidator.validate(code, filePath)).filter(
+      (issue) =>
+        inScope(issue.line) &&
+        !diagnostics?.some(
+          (diagnostic) => diagnostic.line === issue.line && MEMBER_ISSUE_DIAGNOSTICS[issue.kind].includes(diagnostic.code)
+        )
+    );
+    for (const issue of memberIssues) {
+      if (issue.kind === "missing-member" || issue.kind === "unknown-property") {
+        issues.push({
+          type: "missing-symbol",
+          severity: "error",
+          message: issue.message,
+          location: at(issue.line, issue.column),
+          suggestion: issue.suggestion,
+          confidence: 0.9,
+        });
+      } else if (issue.kind === "inaccessible-member") {
+        issues.push({
+          type: "api-mismatch",
+          severity: "error",
+          message: issue.message,
+          location: at(issue.line, issue.column),
+          confidence: 0.85,
+        });
+      } else if (issue.kind === "argument-count" && checkSignatures) {
+        issues.push({
+          type: "signature-mismatch",
+          severity: "error",
+          message: issue.message,
+          location: at(issue.line, issue.column),
+          suggestion: issue.expectedSignature ? `Expected: ${issue.expectedSignature}` : undefined,
+          confidence: 0.85,
+        });
+      }
+    }
+
+    // 2. Check imports
+    if (checkImports) {
+      const imports = this.extractImportsFromCode(code);
+      const bindings = this.extractImportBindingsFromCode(code);
+      const checkedSources = new Set<string>();
+      for (const imp of imports) {
+        // Bindings are collected per source, so check them once per source
+        const firstForSource = !checkedSources.has(imp.path);
+        checkedSources.add(imp.path);
+
+        const result = await this.existenceTools.validateImportPath({
+          importPath: imp.path,
+          fromFile: filePath,
+          resolveAliases: true,
+          typeOnly: imp.typeOnly,
+        });
+
+        const resultData = JSON.parse(result.content[0].text);
+        if (!resultData.valid) {
+          issues.push({
+            type: "invalid-import",
+            severity: "error",
+            message: resultData.error || `Import '${imp.path}' could not be resolved`,
+            location: at(imp.line),
+            suggestion: resultData.alternatives?.length
+              ? `Try: ${resultData.alternatives.join(", ")}`
+              : undefined,
+            confidence: 0.95,
+          });
+        } else if (resultData.warning) {
+          issues.push({
+            type: "invalid-import",
+            severity: "warning",
+            message: resultData.warning,
+            location: at(imp.line),
+            confidence: 0.7,
+          });
+        }
+
+        // Imported names must be exported by the resolved module (including re-exports)
+        if (resultData.valid && resultData.resolvedPath && firstForSource) {
+          const importBindings = bindings.filter((b) => b.source === imp.path);
+          const namespace = importBindings.find((b) => b.kind === "namespace");
+          // Namespace members count where they're used, so only the reviewed lines' uses are checked
+          const accesses = namespace ? this.extractMemberAccesses(code, namespace.local, lines) : new Map<string, number>();
+          const names = [
+            ...importBindings.filter((b) => b.kind !== "namespace").map((b) => b.imported),
+            ...accesses.keys(),
+          ];
+
+          if (names.length > 0) {
+            const namesResult = await this.existenceTools.verifyImportedNames({
+              importPath: imp.path,
+              fromFile: filePath,
+              names,
+            });
+
+            const namesData = JSON.parse(namesResult.content[0].text);
+            for (const missing of namesData.missing || []) {
+              const binding = importBindings.find((b) => b.imported === missing.name);
+              issues.push({
+                type: "invalid-import",
+                severity: "error",
+                message:
+                  missing.name === "default"
+                    ? `'${imp.path}' has no default export`
+                    : binding
+                      ? `'${missing.name}' is not exported by '${imp.path}'`
+                      : `'${namespace?.local}.${missing.name}' is not exported by '${imp.path}'`,
+                location: at(binding ? binding.line : accesses.get(missing.name)),
+                suggestion: missing.suggestion
+                  ? missing.name === "default"
+                    ? missing.suggestion
+                    : `Did you mean '${missing.suggestion}'?`
+                  : undefined,
+                confidence: 0.9,
+              });
+            }
+          }
+        }
+
+        // Named imports from packages must exist in the package's declarations
+        if (resultData.valid && firstForSource && !imp.path.startsWith(".") && !imp.path.startsWith("/")) {
+          const named = bindings.filter((b) => b.source === imp.path && b.kind === "named" && inScope(b.line));
+          for (const binding of named) {
+            const exportResult = await this.apiValidationTools.verifyPackageExport({
+              library: imp.path,
+              exportName: binding.imported,
+            });
+
+            const exportData = JSON.parse(exportResult.content[0].text);
+            if (!exportData.valid) {
+              issues.push({
+                type: "invalid-import",
+                severity: "error",
+                message: exportData.errors?.[0] || `'${binding.imported}' is not exported by '${imp.path}'`,
+                location: at(binding.line),
+                suggestion: exportData.suggestions?.[0],
+                confidence: 0.9,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    // 3. Check type consistency
+    if (checkTypes) {
+      // Object literals checked against the interfaces and object types they are declared with
+      for (const issue of memberIssues) {
+        if (issue.kind !== "missing-property" && issue.kind !== "property-type") continue;
+        issues.push({
+          type: "type-error",
+          severity: "error",
+          message: issue.message,
+          location: at(issue.line, issue.column),
+          suggestion: issue.expectedSignature ? `Expected: ${issue.expectedSignature}` : undefined,
+          confidence: 0.85,
+        });
+      }
+    }
+
+    if (diagnostics) {
+      for (const diagnostic of diagnostics) {
+        if (diagnostic.category !== "error" && diagnostic.category !== "warning") continue;
+        if (!inScope(diagnostic.line)) continue;
+        issues.push({
+          type: this.getDiagnosticIssueType(diagnostic.code),
+          severity: diagnostic.category,
+          message: `TS${diagnostic.code}: ${diagnostic.message}`,
+          location: at(diagnostic.line, diagnostic.column),
+          // Snippets often use names declared by the code around them
+          confidence: diagnostic.code === 2304 ? 0.6 : 0.95,
+        });
+      }
+    }
+
+    if (checkTypes && !diagnostics && (language === "typescript" || language === "tsx")) {
+      const typeResult = await this.consistencyTools.validateTypeConsistency({
+        code: reviewedCode,
+        language,
+      });
+
+      const typeData = JSON.parse(typeResult.content[0].text);
+      if (!typeData.consistent) {
+        for (const error of typeData.typeErrors) {
+          issues.push({
+            type: "type-error",
+            severity: "warning",
+            message: error.error,
+            location: at(),
+            confidence: error.confidence,
+          });
+        }
+      }
+    }
+
+    // 4. Check for contradictory statements
+    const statements = this.extractStatementsFromCode(reviewedCode);
+    if (statements.length > 1) {
+      const contradictionResult =
+        await this.consistencyTools.detectContradictions({
+          statements,
+          context,
+        });
+
+      const contradictionData = JSON.parse(contradictionResult.content[0].text);
+      if (contradictionData.contradictions.length > 0) {
+        for (const contradiction of contradictionData.contradictions) {
+          issues.push({
+            type: "contradiction",
+            severity: "warning",
+            message: `Contradiction detected: ${contradiction.reason}`,
+            location: at(),
+            suggestion: "Review the contradictory statements and resolve the conflict",
+            confidence: contradiction.confidence,
+          });
+        }
+      }
+    }
+
+    // 5. Check for API mismatches
+    if (checkSignatures) {
+      const apiCalls = this.extractAPICallsFromCode(code, this.extractImportBindingsFromCode(code));
+      for (const call of apiCalls) {
+        if (call.library && call.api && inScope(call.line)) {
+          const validationResult = await this.apiValidationTools.verifyApiUsage({
+            library: call.library,
+            api: call.api,
+            parameters: call.parameters,
+          });
+
+          const validationData = JSON.parse(validationResult.content[0].text);
+          if (!validationData.valid) {
+            for (const error of validationData.errors || []) {
+              issues.push({
+                type: "api-mismatch",
+                severity: "error",
+                message: error,
+                location: at(call.line),
+                suggestion: validationData.suggestions?.[0],
+                confidence: 0.8,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    // Issues outside the reviewed lines, such as unchanged imports, were there before it
+    return {
+      issues: issues.filter((issue) => issue.location?.line === undefined || inScope(issue.location.line)),
+      typeChecked: diagnostics !== undefined,
+    };
+  }
+
+  /**
+   * Review changed files at their workspace paths, with `overlay` in place of the disk.
+   * Each file's issues are ordered by line.
+   */
+  private async reviewChangedFiles(
+    files: ChangedFile[],
+    overlay: OverlayFile[],
+    checks: ReviewChecks
+  ): Promise<{ issues: HallucinationIssue[]; typeChecked: boolean }> {
+    const issues: HallucinationIssue[] = [];
+    let typeChecked = false;
+
+    const reviewAll = async () => {
+      for (const file of files) {
+        const review = await this.reviewSource(file.content, {
+          ...checks,
+          filePath: file.path,
+          displayPath: relative(this.workspacePath, file.path),
+          lines: file.lines,
+          language: file.language,
+        });
+
+        issues.push(...review.issues.sort((a, b) => (a.location?.line ?? 0) - (b.location?.line ?? 0)));
+        typeChecked ||= review.typeChecked;
+      }
+    };
+
+    if (overlay.length > 0 && files.length > 0) {
+      await this.index.withOverlay(overlay, reviewAll);
+    } else {
+      await reviewAll();
+    }
+    return { issues, typeChecked };
+  }
+
+  /**
+   * Whether the compiler ran, and why not when it was asked to but isn't installed
+   */
+  private describeTypeCheck(
+    typeCheck: boolean,
+    typeChecked: boolean
+  ): { typeChecked: boolean; typeCheckUnavailable?: string } {
+    if (!typeCheck || typeChecked || this.typeChecker.isAvailable()) {
+      return { typeChecked };
+    }
+    return {
+      typeChecked,
+      typeCheckUnavailable: "No TypeScript compiler is installed in the workspace or with this server",
+    };
+  }
+
+  /**
+   * Overall confidence, summary and counts of a review's issues
+   */
+  private summarizeIssues(issues: HallucinationIssue[]): {
+    confidence: number;
+    summary: string;
+    passed: boolean;
+    breakdown: { errors: number; warnings: number; info: number };
+  } {
+    // Calculate overall confidence
+    const confidence =
+      issues.length === 0
+        ? 1.0
+        : 1 -
+          issues.reduce((sum, issue) => sum + issue.confidence, 0) / issues.length;
+
+    // Generate summary
+    const errorCount = issues.filter((i) => i.severity === "error").length;
+    const warningCount = issues.filter((i) => i.severity === "warning").length;
+    const infoCount = issues.filter((i) => i.severity === "info").length;
+
+    const summary = `Found ${issues.length} potential hallucination(s): ${errorCount} error(s), ${warningCount} warning(s), ${infoCount} info`;
+
+    return {
+      confidence: Math.max(0, confidence),
+      summary,
+      passed: issues.length === 0,
+      breakdown: {
+        errors: errorCount,
+        warnings: warningCount,
+        info: infoCount,
+      },
+    };
+  }
+
+  /**
+   * Put code into a workspace file before `insertAtLine` (1-based), or after its last
+   * line. A file that doesn't exist yet holds just the code. Returns the lines the code
+   * occupies, with issues for imports the file already has; those are left out, since
+   * the combined file wouldn't parse with a name bound twice.
+   */
+  private insertIntoTarget(
+    code: string,
+    targetFile: string,
+    insertAtLine?: number
+  ): { filePath: string; path: string; content: string; lines: Set<number>; issues: HallucinationIssue[] } {
+    const filePath = this.resolveWorkspacePath(targetFile, "Target file");
+    const path = relative(this.workspacePath, filePath);
+    // Proposed files given with the review replace the one on disk
+    const existing = this.index.getOverlay().read(filePath) ?? this.readWorkspaceFile(filePath);
+
+    const fileLines = existing ? existing.replace(/\n$/, "").split("\n") : [];
+    const start = Math.min((insertAtLine ?? fileLines.length + 1) - 1, fileLines.length);
+    const { code: merged, duplicates } = this.dropImportedNames(code, existing ?? "", filePath);
+    const codeLines = merged.replace(/\n$/, "").split("\n");
+
+    const issues: HallucinationIssue[] = duplicates.map(({ name, line, source, previous }) => ({
+      type: "invalid-import",
+      severity: previous.source === source ? "warning" : "error",
+      message:
+        previous.source === source
+          ? `'${name}' is already imported by ${path} (line ${previous.line})`
+          : `'${name}' is already imported from '${previous.source}' by ${path} (line ${previous.line})`,
+      location: { filePath: path, line: start + line },
+      suggestion:
+        previous.source === source
+          ? "Drop the import; the file's own import is used"
+          : `Use the file's import of '${name}', or import this one under another name`,
+      confidence: 0.9,
+    }));
+
+    return {
+      filePath,
+      path,
+      content: [...fileLines.slice(0, start), ...codeLines, ...fileLines.slice(start)].join("\n") + "\n",
+      lines: new Set(codeLines.map((_, i) => start + i + 1)),
+      issues,
+    };
+  }
+
+  /**
+   * Remove import specifiers from code whose local names a file already imports, keeping
+   * the code's line numbers. Code or files that don't parse are left as they are.
+   */
+  private dropImportedNames(
+    code: string,
+    existing: string,
+    filePath: string
+  ): {
+    code: string;
+    duplicates: Array<{ name: string; line: number; source: string; previous: { source: string; line?: number } }>;
+  } {
+    const analyzer = this.index.getAnalyzer();
+    const snippetPath = `${this.workspacePath}/__review__${extname(filePath) || ".ts"}`;
+    const imported = new Map<string, { source: string; line?: number }>();
+    let statements: ReturnType<typeof analyzer.parse>["program"]["body"];
+
+    try {
+      for (const statement of analyzer.parse(existing, filePath).program.body) {
+        if (statement.type !== "ImportDeclaration") continue;
+        for (const specifier of statement.specifiers) {
+          imported.set(specifier.local.name, { source: statement.source.value, line: statement.loc?.start.line });
+        }
+      }
+      statements = analyzer.parse(code, snippetPath).program.body;
+    } catch (error) {
+      return { code, duplicates: [] };
+    } finally {
+      analyzer.invalidate(snippetPath);
+    }
+
+    const duplicates: Array<{ name: string; line: number; source: string; previous: { source: string; line?: number } }> = [];
+    let merged = code;
+
+    // From the end, so earlier offsets stay valid
+    for (const statement of [...statements].reverse()) {
+      if (statement.type !== "ImportDeclaration") continue;
+      const kept = statement.specifiers.filter((specifier) => !imported.has(specifier.local.name));
+      if (kept.length === statement.specifiers.length) continue;
+
+      for (const specifier of statement.specifiers.filter((specifier) => !kept.includes(specifier))) {
+        duplicates.unshift({
+          name: specifier.local.name,
+          line: statement.loc!.start.line,
+          source: statement.source.value,
+          previous: imported.get(specifier.local.name)!,
+        });
+      }
+
+      const text = (node: { start?: number | null; end?: number | null }) => code.slice(node.start!, node.end!);
+      const named = kept.filter((specifier) => specifier.type === "ImportSpecifier");
+      const clause = [
+        ...kept.filter((specifier) => specifier.type !== "ImportSpecifier").map(text),
+        ...(named.length > 0 ? [`{ ${named.map(text).join(", ")} }`] : []),
+      ].join(", ");
+      const original = text(statement);
+      const replacement =
+        kept.length > 0
+          ? `import ${statement.importKind === "type" ? "type " : ""}${clause} from ${text(statement.source)};`
+          : "";
+
+      // Blank lines stand in for the lines the import spanned
+      merged =
+        merged.slice(0, statement.start!) +
+        replacement +
+        "\n".repeat(original.split("\n").length - 1) +
+        merged.slice(statement.end!);
+    }
+
+    return { code: merged, duplicates };
+  }
+
+  /**
+   * Resolve a path against the workspace, refusing paths outside it
+   */
+  private resolveWorkspacePath(path: string, description: string): string {
+    const filePath = resolve(this.workspacePath, path);
+    const relativePath = relative(this.workspacePath, filePath);
+    if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+      throw new AnalysisError(`${description} is outside the workspace`, path);
+    }
+    return filePath;
+  }
+
+  /**
+   * Current content of a workspace file, or undefined if it doesn't exist
+   */
+  private readWorkspaceFile(path: string): string | undefined {
+    try {
+      return readFileSync(resolve(this.workspacePath, path), "utf-8");
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   /**
    * Extract symbols (functions, classes, variables) from code
    */
   private extractSymbolsFromCode(code: string): Array<{
     name: string;
-    type: "function" | "class" | "variable";
+    type?: "function" | "class";
+    line: number;
   }> {
-    const symbols: Array<{ name: string; type: "function" | "class" | "variable" }> = [];
+    const symbols: Array<{ name: string; type?: "function" | "class"; line: number }> = [];
+    const lineAt = this.createLineLookup(code);
+    // Import specifiers like "./lib/index.js" and text in comments aren't property accesses
+    code = this.maskLiterals(code);
 
-    // Extract function calls
-    const functionCallPattern = /(\w+)\s*\(/g;
+    // Extract function calls; `obj.method()` names a member and `new X()` a class, not a free function
+    const functionCallPattern = /(?<!\bnew\s+)(?<![\w$.])(\w+)\s*\(/g;
     let match;
     while ((match = functionCallPattern.exec(code)) !== null) {
       const name = match[1];
       if (!this.isBuiltinSymbol(name)) {
-        symbols.push({ name, type: "function" });
+        symbols.push({ name, type: "function", line: lineAt(match.index) });
       }
     }
 
@@ -418,16 +1279,16 @@ export class PostReviewTools {
     while ((match = classPattern.exec(code)) !== null) {
       const name = match[1];
       if (!this.isBuiltinSymbol(name)) {
-        symbols.push({ name, type: "class" });
+        symbols.push({ name, type: "class", line: lineAt(match.index) });
       }
     }
 
-    // Extract property access (potential variables)
+    // Extract property access receivers: variables, but also classes, enums and namespaces
     const propertyPattern = /(\w+)\.\w+/g;
     while ((match = propertyPattern.exec(code)) !== null) {
       const name = match[1];
       if (!this.isBuiltinSymbol(name) && !symbols.find((s) => s.name === name)) {
-        symbols.push({ name, type: "variable" });
+        symbols.push({ name, line: lineAt(match.index) });
       }
     }
 
@@ -437,19 +1298,20 @@ export class PostReviewTools {
   /**
    * Extract imports from code
    */
-  private extractImportsFromCode(code: string): Array<{ path: string }> {
-    const imports: Array<{ path: string }> = [];
+  private extractImportsFromCode(code: string): Array<{ path: string; typeOnly: boolean; line: number }> {
+    const imports: Array<{ path: string; typeOnly: boolean; line: number }> = [];
+    const lineAt = this.createLineLookup(code);
 
     const patterns = [
-      /import\s+.*?from\s+['"]([^'"]+)['"]/g,
-      /import\(['"]([^'"]+)['"]\)/g,
-      /require\(['"]([^'"]+)['"]\)/g,
+      /import\s+(type\s+)?.*?from\s+['"]([^'"]+)['"]/g,
+      /import\(()['"]([^'"]+)['"]\)/g,
+      /require\(()['"]([^'"]+)['"]\)/g,
     ];
 
     for (const pattern of patterns) {
       let match;
       while ((match = pattern.exec(code)) !== null) {
-        imports.push({ path: match[1] });
+        imports.push({ path: match[2], typeOnly: Boolean(match[1]), line: lineAt(match.index) });
       }
     }
 
@@ -469,30 +1331,214 @@ export class PostReviewTools {
     return statements;
   }
 
+  /**
+   * Extract import bindings (local name -> imported name and source) from code
+   */
+  private extractImportBindingsFromCode(code: string): Array<{
+    local: string;
+    imported: string;
+    source: string;
+    kind: "named" | "default" | "namespace";
+    line: number;
+  }> {
+    const bindings: Array<{
+      local: string;
+      imported: string;
+      source: string;
+      kind: "named" | "default" | "namespace";
+      line: number;
+    }> = [];
+    const lineAt = this.createLineLookup(code);
+
+    const pattern = /import\s+(?:type\s+)?([\w$*{}\s,]+?)\s+from\s+['"]([^'"]+)['"]/g;
+    let match;
+
+    while ((match = pattern.exec(code)) !== null) {
+      const clause = match[1];
+      const source = match[2];
+      const line = lineAt(match.index);
+
+      const namespaceMatch = clause.match(/\*\s+as\s+([\w$]+)/);
+      if (namespaceMatch) {
+        bindings.push({ local: namespaceMatch[1], imported: "*", source, kind: "namespace", line });
+      }
+
+      const defaultMatch = clause.match(/^\s*([\w$]+)/);
+      if (defaultMatch && defaultMatch[1] !== "type") {
+        bindings.push({ local: defaultMatch[1], imported: "default", source, kind: "default", line });
+      }
+
+      const namedMatch = clause.match(/\{([^}]*)\}/);
+      if (namedMatch) {
+        for (const part of namedMatch[1].split(",")) {
+          const specifier = part.trim().replace(/^type\s+/, "");
+          if (!specifier) continue;
+          const [imported, local] = specifier.split(/\s+as\s+/);
+          bindings.push({ local: local || imported, imported, source, kind: "named", line });
+        }
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Extract the members accessed on a namespace import (`ns.member`), with the line of
+   * their first access on `lines` (any line when omitted)
+   */
+  private extractMemberAccesses(code: string, namespace: string, lines?: Set<number>): Map<string, number> {
+    const escaped = namespace.replace(/\$/g, "\\$");
+    const pattern = new RegExp(`(?<![\\w$.])${escaped}\\.([\\w$]+)`, "g");
+    const members = new Map<string, number>();
+    const lineAt = this.createLineLookup(code);
+    let match;
+
+    while ((match = pattern.exec(code)) !== null) {
+      const line = lineAt(match.index);
+      if (!members.has(match[1]) && (!lines || lines.has(line))) {
+        members.set(match[1], line);
+      }
+    }
+
+    return members;
+  }
+
   /**
    * Extract API calls from code
    */
-  private extractAPICallsFromCode(code: string): Array<{
+  private extractAPICallsFromCode(
+    code: string,
+    bindings: Array<{ local: string; source: string; kind: "named" | "default" | "namespace" }> = []
+  ): Array<{
     library?: string;
     api: string;
     parameters?: Record<string, unknown>;
+    line: number;
   }> {
-    const calls: Array<{ library?: string; api: string; parameters?: Record<string, unknown> }> = [];
+    const calls: Array<{ library?: string; api: string; parameters?: Record<string, unknown>; line: number }> = [];
+    const lineAt = this.createLineLookup(code);
+    const globalObjects = ["JSON", "Math", "Object", "Array", "Promise", "Reflect", "Number", "String", "Date"];
 
     // Match patterns like: library.function(...)
     const pattern = /(\w+)\.(\w+)\s*\(/g;
     let match;
 
     while ((match = pattern.exec(code)) !== null) {
+      // Only attribute calls to a library when the receiver is an imported module or a global.
+      // Default imports only mirror the module's exports for Node.js built-ins.
+      const binding = bindings.find(
+        (b) =>
+          b.local === match[1] &&
+          (b.kind === "namespace" ||
+            (b.kind === "default" && (b.source.startsWith("node:") || builtinModules.includes(b.source))))
+      );
+      const library = binding ? binding.source : globalObjects.includes(match[1]) ? match[1] : undefined;
+
       calls.push({
-        library: match[1],
+        library,
         api: match[2],
+        line: lineAt(match.index),
       });
     }
 
     return calls;
   }
 
+  /**
+   * Map character offsets in code to 1-based line numbers
+   */
+  private createLineLookup(code: string): (offset: number) => number {
+    const lineStarts = [0];
+    for (let i = code.indexOf("\n"); i !== -1; i = code.indexOf("\n", i + 1)) {
+      lineStarts.push(i + 1);
+    }
+
+    return (offset) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+      }
+      return low + 1;
+    };
+  }
+
+  /**
+   * Blank out comments and the text of string and template literals (keeping offsets and line
+   * breaks), so patterns only match code; `${}` expressions inside templates stay as they are
+   */
+  private maskLiterals(code: string): string {
+    const chars = code.split("");
+    // Brace depth at which each enclosing template's `${` was opened
+    const templates: number[] = [];
+    let depth = 0;
+    let i = 0;
+
+    const blank = (from: number, to: number) => {
+      for (let j = from; j < to; j++) {
+        if (chars[j] !== "\n") chars[j] = " ";
+      }
+    };
+
+    // Skip template text from `i` up to the closing backtick or the next `${`
+    const skipTemplateText = () => {
+      const start = i;
+      while (i < code.length && code[i] !== "`" && !(code[i] === "$" && code[i + 1] === "{")) {
+        i += code[i] === "\\" ? 2 : 1;
+      }
+      blank(start, Math.min(i, code.length));
+      if (code[i] === "$") {
+        templates.push(depth);
+        depth++;
+        i += 2;
+      } else {
+        i++;
+      }
+    };
+
+    while (i < code.length) {
+      const char = code[i];
+
+      if (char === "/" && code[i + 1] === "/") {
+        const end = code.indexOf("\n", i);
+        const stop = end === -1 ? code.length : end;
+        blank(i, stop);
+        i = stop;
+      } else if (char === "/" && code[i + 1] === "*") {
+        const end = code.indexOf("*/", i + 2);
+        const stop = end === -1 ? code.length : end + 2;
+        blank(i, stop);
+        i = stop;
+      } else if (char === '"' || char === "'") {
+        const start = i++;
+        while (i < code.length && code[i] !== char && code[i] !== "\n") {
+          i += code[i] === "\\" ? 2 : 1;
+        }
+        blank(start + 1, Math.min(i, code.length));
+        i++;
+      } else if (char === "`") {
+        i++;
+        skipTemplateText();
+      } else if (char === "{") {
+        depth++;
+        i++;
+      } else if (char === "}") {
+        depth--;
+        i++;
+        if (templates.length > 0 && templates[templates.length - 1] === depth) {
+          templates.pop();
+          skipTemplateText();
+        }
+      } else {
+        i++;
+      }
+    }
+
+    return chars.join("");
+  }
+
   /**
    * Check if a symbol is a built-in
    */
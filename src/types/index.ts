@@ -11,14 +11,68 @@ export interface ToolResponse {
   isError?: boolean;
 }
 
+export interface JSDocInfo {
+  description?: string;
+  params?: Array<{ name: string; type?: string; optional?: boolean; description?: string }>;
+  returns?: { type?: string; description?: string };
+  deprecated?: boolean;
+  deprecationMessage?: string;
+  internal?: boolean;
+}
+
+/**
+ * Where a symbol is declared: at the top level of a module, as a member (of a class,
+ * namespace or exported object literal), or inside a function
+ */
+export type SymbolScope = "module" | "class" | "function";
+
+/**
+ * Accessibility of a class member; `#private` is an ECMAScript private name (`#field`)
+ */
+export type MemberVisibility = "public" | "protected" | "private" | "#private";
+
 export interface SymbolInfo {
   name: string;
-  type: "function" | "class" | "variable" | "import" | "type" | "interface";
+  type:
+    | "function"
+    | "class"
+    | "variable"
+    | "import"
+    | "type"
+    | "interface"
+    | "enum"
+    | "enum-member"
+    | "namespace"
+    | "property"
+    | "getter"
+    | "setter";
   filePath: string;
   line?: number;
   column?: number;
   signature?: string;
   exported: boolean;
+  scope: SymbolScope;
+  parent?: string; // Qualified name of the enclosing class or function (e.g. "UserRepo" or "UserRepo.save")
+  jsdoc?: JSDocInfo;
+  visibility?: MemberVisibility; // Class members only
+  static?: boolean;
+  readonly?: boolean; // `readonly` members, enum members, and `as const` objects and their keys
+  optional?: boolean; // Members declared with `?`
+  typeAnnotation?: string; // Declared type of a property, as written
+  indexed?: boolean; // Interfaces and object types with an index signature, which accept any key
+  extends?: string[]; // Base class of a class, or the interfaces an interface extends, as written (e.g. "ns.Base")
+  implements?: string[]; // Interfaces a class implements
+}
+
+/**
+ * A name in scope at some point of a file, and how it was declared
+ */
+export interface ScopeBinding {
+  name: string;
+  kind: "var" | "let" | "const" | "module" | "hoisted" | "param" | "local" | "unknown"; // As Babel tells them apart
+  type?: string; // Declared type, as written
+  line?: number;
+  own: boolean; // Declared by the innermost scope itself, not an enclosing one
 }
 
 export interface ImportInfo {
@@ -31,24 +85,43 @@ export interface ImportInfo {
 
 export interface ExportInfo {
   name: string;
-  type: "function" | "class" | "variable" | "type" | "interface";
+  type: "function" | "class" | "variable" | "type" | "interface" | "enum" | "namespace";
   filePath: string;
   line?: number;
   signature?: string;
+  source?: string; // Module specifier for re-exports (`export ... from "source"`)
+  localName?: string; // Name in the source module for re-exports
+}
+
+export interface ParameterInfo {
+  name: string; // Destructured parameters are named by their pattern, e.g. "{ id, name }"
+  type?: string;
+  optional: boolean; // Marked `?`, has a default value, or is a rest parameter
+  rest?: boolean; // `...args`: accepts any number of arguments
+  properties?: string[]; // Keys of a destructured object, or names in a destructured array
+  accessibility?: "public" | "private" | "protected"; // Constructor parameter properties
+  readonly?: boolean;
 }
 
 export interface FunctionSignature {
   name: string;
-  parameters: Array<{
-    name: string;
-    type?: string;
-    optional: boolean;
-  }>;
+  parent?: string; // Qualified name of the class that declares a method (e.g. "UserRepo")
+  parameters: ParameterInfo[];
+  thisType?: string; // Type of an explicit `this` parameter, which isn't passed as an argument
   returnType?: string;
+  typeParameters?: string[]; // As written, e.g. "T extends object = {}"
   filePath: string;
   line?: number;
   isAsync: boolean;
   isGenerator: boolean;
+  isConstructor?: boolean; // Named after its class; `parent` is the class
+  jsdoc?: JSDocInfo;
+}
+
+// A proposed file, analyzed as if it were written to the workspace
+export interface OverlayFile {
+  path: string; // Relative to the workspace, or absolute
+  content: string;
 }
 
 // Analysis result types
@@ -117,12 +190,18 @@ export type StrictModeLevel = "off" | "warn" | "strict" | "paranoid";
 
 export interface ServerConfig {
   workspacePath: string;
-  include: string[];
-  exclude: string[];
+  include: string[]; // File extensions (".ts") or glob patterns ("src/**/*.ts")
+  exclude: string[]; // Directory/file names ("dist") or glob patterns ("**/*.generated.ts")
   logLevel: "debug" | "info" | "warn" | "error";
   maxCacheSize: number;
   strictMode?: StrictModeLevel;
   requireValidationFor?: string[]; // Tool names that require validation in strict mode
+  persistentIndex?: boolean; // Persist the symbol/export index between runs (default: true)
+  cacheDir?: string; // Index directory, relative to the workspace (default: .epistemic-cache)
+  watch?: boolean; // Watch the workspace and invalidate caches for changed files (default: true)
+  respectGitignore?: boolean; // Skip files matched by .gitignore/.ignore files (default: false)
+  indexWorkers?: number; // Worker threads used to parse the workspace (default: cores - 1, max 4; 0 disables)
+  typeCheck?: boolean; // Type-check reviewed code in the workspace's TypeScript program (default: false)
 }
 
 export interface ToolContext {
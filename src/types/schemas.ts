@@ -7,6 +7,19 @@ import { z } from "zod";
 const FilePathSchema = z.string().min(1).describe("Path to a file");
 const SymbolNameSchema = z.string().min(1).describe("Name of a symbol");
 const CodeSnippetSchema = z.string().describe("Code snippet");
+const TargetFileSchema = z
+  .string()
+  .min(1)
+  .describe("File the code will be added to, relative to the workspace or absolute; imports resolve from it");
+const InsertAtLineSchema = z
+  .number()
+  .int()
+  .positive()
+  .describe("Line of the target file the code is inserted before (default: the end of the file)");
+const OverlayFileSchema = z.object({
+  path: z.string().min(1).describe("Path relative to the workspace, or absolute"),
+  content: z.string().describe("Proposed content of the file"),
+});
 
 const SymbolTypeEnum = z.enum([
   "function",
@@ -15,7 +28,28 @@ const SymbolTypeEnum = z.enum([
   "import",
   "type",
   "interface",
-]) as z.ZodEnum<["function", "class", "variable", "import", "type", "interface"]>;
+  "enum",
+  "enum-member",
+  "namespace",
+  "property",
+  "getter",
+  "setter",
+]) as z.ZodEnum<
+  [
+    "function",
+    "class",
+    "variable",
+    "import",
+    "type",
+    "interface",
+    "enum",
+    "enum-member",
+    "namespace",
+    "property",
+    "getter",
+    "setter",
+  ]
+>;
 
 const LanguageEnum = z.enum([
   "typescript",
@@ -39,7 +73,12 @@ const SeverityEnum = z.enum(["error", "warning", "info"]) as z.ZodEnum<
 export const VerifySymbolExistsSchema = z.object({
   symbol: SymbolNameSchema,
   filePath: FilePathSchema.optional(),
-  symbolType: SymbolTypeEnum.optional().default("function"),
+  symbolType: SymbolTypeEnum.optional().describe("Kind of symbol; any kind matches when omitted"),
+  includeLocals: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Also match declarations local to a function body"),
 });
 
 // validate_import_path
@@ -47,6 +86,7 @@ export const ValidateImportPathSchema = z.object({
   importPath: z.string().min(1).describe("Import path to validate"),
   fromFile: FilePathSchema.describe("File containing the import"),
   resolveAliases: z.boolean().optional().default(false),
+  typeOnly: z.boolean().optional().default(false).describe("Whether this is an `import type`"),
 });
 
 // check_function_signature
@@ -75,6 +115,45 @@ export const ReviewCodeForHallucinationsSchema = z.object({
   checkImports: z.boolean().optional().default(true),
   checkSignatures: z.boolean().optional().default(true),
   checkTypes: z.boolean().optional().default(true),
+  typeCheck: z
+    .boolean()
+    .optional()
+    .describe("Type-check the code with the TypeScript compiler inside the workspace's program"),
+  files: z
+    .array(OverlayFileSchema)
+    .optional()
+    .describe("Proposed files, reviewed against as if they were written to the workspace"),
+  targetFile: TargetFileSchema.optional(),
+  insertAtLine: InsertAtLineSchema.optional(),
+});
+
+// review_patch
+export const ReviewPatchSchema = z.object({
+  patch: z.string().min(1).describe("Unified diff, as produced by `git diff` or `diff -u`"),
+  checkImports: z.boolean().optional().default(true),
+  checkSignatures: z.boolean().optional().default(true),
+  checkTypes: z.boolean().optional().default(true),
+  typeCheck: z
+    .boolean()
+    .optional()
+    .describe("Type-check the patched files with the TypeScript compiler inside the workspace's program"),
+});
+
+// review_working_changes
+export const ReviewWorkingChangesSchema = z.object({
+  ref: z
+    .string()
+    .regex(/^[^-]/, "A ref can't start with '-'")
+    .optional()
+    .describe("Commit, branch or tag to diff against (default: HEAD)"),
+  staged: z.boolean().optional().default(false).describe("Review the staged changes instead of the working tree"),
+  checkImports: z.boolean().optional().default(true),
+  checkSignatures: z.boolean().optional().default(true),
+  checkTypes: z.boolean().optional().default(true),
+  typeCheck: z
+    .boolean()
+    .optional()
+    .describe("Type-check the changed files with the TypeScript compiler inside the workspace's program"),
 });
 
 // detect_contradictions
@@ -87,6 +166,7 @@ export const DetectContradictionsSchema = z.object({
 export const ValidateFactualClaimsSchema = z.object({
   claims: z.array(z.string().min(1)).min(1).describe("Claims to validate"),
   domain: z.string().optional().default("codebase").describe("Domain to validate against"),
+  targetFile: TargetFileSchema.optional(),
 });
 
 // ============================================================================
@@ -97,6 +177,8 @@ export const ValidateFactualClaimsSchema = z.object({
 export const CheckLogicalConsistencySchema = z.object({
   codeBlocks: z.array(CodeSnippetSchema).min(1).describe("Code blocks to compare"),
   assertions: z.array(z.string()).optional().describe("Expected invariants"),
+  targetFile: TargetFileSchema.optional(),
+  insertAtLine: InsertAtLineSchema.optional(),
 });
 
 // validate_type_consistency
@@ -104,6 +186,8 @@ export const ValidateTypeConsistencySchema = z.object({
   code: CodeSnippetSchema,
   filePath: FilePathSchema.optional(),
   language: LanguageEnum,
+  targetFile: TargetFileSchema.optional(),
+  insertAtLine: InsertAtLineSchema.optional(),
 });
 
 // ============================================================================
@@ -168,6 +252,8 @@ export const SymbolInfoSchema = z.object({
   column: z.number().optional(),
   signature: z.string().optional(),
   exported: z.boolean(),
+  scope: z.enum(["module", "class", "function"]),
+  parent: z.string().optional(),
 });
 
 export const ValidationResultSchema = z.object({
@@ -220,6 +306,8 @@ export const Schemas = {
 
   // Post-review
   reviewCodeForHallucinations: ReviewCodeForHallucinationsSchema,
+  reviewPatch: ReviewPatchSchema,
+  reviewWorkingChanges: ReviewWorkingChangesSchema,
   detectContradictions: DetectContradictionsSchema,
   validateFactualClaims: ValidateFactualClaimsSchema,
 
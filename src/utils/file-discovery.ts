@@ -0,0 +1,215 @@
+/**
+ * File Discovery - Find workspace files according to include/exclude settings and ignore files
+ */
+
+import glob from "fast-glob";
+import ignore, { Ignore } from "ignore";
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, extname, join, relative, sep } from "path";
+import { ServerConfig } from "../types/index.js";
+
+export const DEFAULT_SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mts", ".mjs", ".cjs"];
+
+/**
+ * Ignore files read when `respectGitignore` is enabled
+ */
+const IGNORE_FILE_NAMES = [".gitignore", ".ignore"];
+
+/**
+ * Always skipped, whatever the configuration says (hidden directories such as .next/ and
+ * .turbo/ are skipped too, as fast-glob does by default)
+ */
+const ALWAYS_EXCLUDED = [".git", ".epistemic-cache", "node_modules"];
+
+/**
+ * Whether a file is a .gitignore or .ignore file
+ */
+export function isIgnoreFile(filePath: string): boolean {
+  return IGNORE_FILE_NAMES.includes(basename(filePath));
+}
+
+export class FileDiscovery {
+  private config: ServerConfig;
+  private workspacePath: string;
+  private extensions: string[];
+  private includePatterns: string[];
+  private includeMatcher: Ignore | null;
+  private excludeGlobs: string[];
+  private matcher: Ignore | null = null;
+
+  constructor(config: ServerConfig) {
+    this.config = config;
+    this.workspacePath = config.workspacePath;
+
+    // `include` entries are extensions (".ts") or glob patterns ("src/**/*.ts")
+    const include = config.include || [];
+    this.extensions = include.filter((entry) => /^\.[\w.]+$/.test(entry));
+    this.includePatterns = include.filter((entry) => !this.extensions.includes(entry));
+    if (this.extensions.length === 0 && this.includePatterns.length === 0) {
+      this.extensions = DEFAULT_SOURCE_EXTENSIONS;
+    }
+    this.includeMatcher = this.includePatterns.length > 0 ? ignore().add(this.includePatterns) : null;
+
+    // Plain names exclude any file or directory with that name; globs are passed to fast-glob
+    const exclude = [...ALWAYS_EXCLUDED, ...(config.exclude || [])];
+    this.excludeGlobs = exclude.flatMap((entry) =>
+      /[*?[\]{}/]/.test(entry) ? [entry] : [`**/${entry}`, `**/${entry}/**`]
+    );
+  }
+
+  /**
+   * Find source files matching `include` that aren't excluded (absolute paths)
+   */
+  async findSourceFiles(): Promise<string[]> {
+    const patterns = [
+      ...this.extensions.map((ext) => `**/*${ext}`),
+      ...this.includePatterns,
+    ];
+
+    const files = await glob(patterns, {
+      cwd: this.workspacePath,
+      absolute: true,
+      ignore: this.excludeGlobs,
+    });
+
+    return files.filter((filePath) => !this.isIgnored(filePath, false));
+  }
+
+  /**
+   * Find every file or directory that isn't excluded, relative to `basePath`
+   */
+  async findFiles(options?: { basePath?: string; onlyDirectories?: boolean; deep?: number }): Promise<string[]> {
+    const basePath = options?.basePath || this.workspacePath;
+
+    const entries = await glob("**/*", {
+      cwd: basePath,
+      absolute: false,
+      onlyFiles: !options?.onlyDirectories,
+      onlyDirectories: options?.onlyDirectories === true,
+      deep: options?.deep,
+      ignore: this.excludeGlobs,
+    });
+
+    return entries.filter((entry) => !this.isIgnored(join(basePath, entry), options?.onlyDirectories === true));
+  }
+
+  /**
+   * Whether a file is a source file that discovery would return
+   */
+  isIncluded(filePath: string): boolean {
+    if (this.isExcluded(filePath) || basename(filePath).startsWith(".")) return false;
+
+    if (this.extensions.includes(extname(filePath))) {
+      return true;
+    }
+    return this.includeMatcher !== null && this.includeMatcher.ignores(this.toRelative(filePath));
+  }
+
+  /**
+   * Whether a file or directory is excluded by config or ignore files
+   */
+  isExcluded(filePath: string, isDirectory: boolean = false): boolean {
+    const relativePath = this.toRelative(filePath);
+    if (!relativePath) return false;
+    if (relativePath.startsWith("..")) return true;
+
+    // Directory rules in `exclude` apply to everything below them
+    const segments = relativePath.split("/");
+    const names = [...ALWAYS_EXCLUDED, ...(this.config.exclude || [])];
+    if (segments.some((segment) => names.includes(segment))) return true;
+
+    // Files inside hidden directories are never discovered
+    const directories = isDirectory ? segments : segments.slice(0, -1);
+    if (directories.some((segment) => segment.startsWith("."))) return true;
+
+    return this.isIgnored(filePath, isDirectory);
+  }
+
+  /**
+   * Forget loaded ignore files (after one of them changed)
+   */
+  reload(): void {
+    this.matcher = null;
+  }
+
+  /**
+   * Check glob excludes and ignore-file rules
+   */
+  private isIgnored(filePath: string, isDirectory: boolean): boolean {
+    const relativePath = this.toRelative(filePath);
+    if (!relativePath || relativePath.startsWith("..")) return false;
+
+    const matcher = this.getMatcher();
+    return matcher.ignores(isDirectory ? `${relativePath}/` : relativePath);
+  }
+
+  /**
+   * Build the matcher from glob excludes and (optionally) every .gitignore/.ignore in the workspace
+   */
+  private getMatcher(): Ignore {
+    if (this.matcher) {
+      return this.matcher;
+    }
+
+    const matcher = ignore().add(
+      (this.config.exclude || []).filter((entry) => /[*?[\]{}/]/.test(entry))
+    );
+
+    if (this.config.respectGitignore) {
+      const ignoreFiles = glob.sync(IGNORE_FILE_NAMES.map((name) => `**/${name}`), {
+        cwd: this.workspacePath,
+        dot: true,
+        ignore: this.excludeGlobs,
+      });
+
+      // Parent directories first so nested files can override them
+      ignoreFiles.sort((a, b) => a.split("/").length - b.split("/").length);
+
+      for (const ignoreFile of ignoreFiles) {
+        const dir = dirname(ignoreFile);
+        const rules = this.readRules(join(this.workspacePath, ignoreFile));
+        matcher.add(dir === "." ? rules : rules.map((rule) => this.scopeRule(rule, dir)));
+      }
+    }
+
+    this.matcher = matcher;
+    return matcher;
+  }
+
+  /**
+   * Read the rules of an ignore file, skipping blanks and comments
+   */
+  private readRules(filePath: string): string[] {
+    if (!existsSync(filePath)) return [];
+
+    try {
+      return readFileSync(filePath, "utf-8")
+        .split(/\r?\n/)
+        .filter((line) => line.trim() && !line.startsWith("#"));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite a rule from a nested ignore file so it applies relative to the workspace root
+   */
+  private scopeRule(rule: string, dir: string): string {
+    const negated = rule.startsWith("!");
+    let pattern = negated ? rule.slice(1) : rule;
+
+    // Rules without an inner slash match at any depth below their directory
+    const anchored = pattern.replace(/\/$/, "").includes("/");
+    pattern = pattern.replace(/^\//, "");
+    const scoped = anchored ? `${dir}/${pattern}` : `${dir}/**/${pattern}`;
+
+    return negated ? `!${scoped}` : scoped;
+  }
+
+  /**
+   * Workspace-relative path with forward slashes, as ignore rules expect
+   */
+  private toRelative(filePath: string): string {
+    return relative(this.workspacePath, filePath).split(sep).join("/");
+  }
+}
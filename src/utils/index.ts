@@ -3,3 +3,16 @@
  */
 
 export { StrictModeManager } from "./strict-mode.js";
+export { calculateSimilarity, findClosestMatches } from "./similarity.js";
+export { WorkspaceWatcher, isResolutionConfigFile, type WorkspaceChange } from "./workspace-watcher.js";
+export { FileDiscovery, isIgnoreFile, DEFAULT_SOURCE_EXTENSIONS } from "./file-discovery.js";
+export { getArity, findClosestSignature, formatParameter, formatSignature } from "./signatures.js";
+export {
+  parseUnifiedDiff,
+  applyFilePatch,
+  getAddedLines,
+  type DiffHunk,
+  type FilePatch,
+  type PatchResult,
+} from "./unified-diff.js";
+export { runGit } from "./git.js";
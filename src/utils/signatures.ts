@@ -0,0 +1,72 @@
+/**
+ * Signature Helpers - Arity and formatting of extracted function signatures
+ */
+
+import { FunctionSignature, ParameterInfo } from "../types/index.js";
+
+/**
+ * Minimum and maximum number of arguments a signature accepts (max is Infinity with a rest parameter)
+ */
+export function getArity(signature: FunctionSignature): { min: number; max: number } {
+  const parameters = signature.parameters;
+  return {
+    min: parameters.filter((p) => !p.optional).length,
+    max: parameters.some((p) => p.rest) ? Infinity : parameters.length,
+  };
+}
+
+/**
+ * The signature a call with `count` arguments fits, or else the overload closest to it:
+ * the longest when there are too many arguments, the shortest otherwise
+ */
+export function findClosestSignature(signatures: FunctionSignature[], count: number): FunctionSignature | undefined {
+  if (signatures.length === 0) return undefined;
+
+  const fitting = signatures.find((sig) => {
+    const { min, max } = getArity(sig);
+    return count >= min && count <= max;
+  });
+  if (fitting) return fitting;
+
+  const longest = signatures.reduce((best, sig) => (getArity(sig).max > getArity(best).max ? sig : best));
+  if (count > getArity(longest).max) return longest;
+  return signatures.reduce((best, sig) => (getArity(sig).min < getArity(best).min ? sig : best));
+}
+
+/**
+ * Format a parameter as it would be written (`...args: string[]`, `private readonly repo: Repo`)
+ */
+export function formatParameter(param: ParameterInfo): string {
+  const modifiers = [param.accessibility, param.readonly && "readonly"].filter(Boolean).join(" ");
+  const name = param.rest ? `...${param.name}` : param.optional ? `${param.name}?` : param.name;
+  const text = param.type ? `${name}: ${param.type}` : name;
+  return modifiers ? `${modifiers} ${text}` : text;
+}
+
+/**
+ * Format a signature for display (`async save<T>(item: T, force?: boolean): Promise<void>`,
+ * or `new Repo(db: Db)` for constructors)
+ */
+export function formatSignature(signature: FunctionSignature): string {
+  const params = signature.parameters.map((p) => formatParameter(p)).join(", ");
+
+  let sig = signature.name;
+
+  if (signature.isConstructor) {
+    sig = `new ${sig}`;
+  } else if (signature.isAsync) {
+    sig = `async ${sig}`;
+  }
+
+  if (signature.typeParameters?.length) {
+    sig = `${sig}<${signature.typeParameters.join(", ")}>`;
+  }
+
+  sig = `${sig}(${params})`;
+
+  if (signature.returnType) {
+    sig += `: ${signature.returnType}`;
+  }
+
+  return sig;
+}
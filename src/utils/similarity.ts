@@ -0,0 +1,65 @@
+/**
+ * String Similarity - Fuzzy matching helpers for "did you mean" suggestions
+ */
+
+/**
+ * Calculate string similarity (normalized Levenshtein distance)
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+  const len1 = str1.length;
+  const len2 = str2.length;
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= len1; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= len2; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      if (str1.charAt(i - 1) === str2.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+
+  const maxLen = Math.max(len1, len2);
+  return maxLen === 0 ? 1 : 1 - matrix[len1][len2] / maxLen;
+}
+
+/**
+ * Find the candidates closest to a target, best match first
+ */
+export function findClosestMatches(
+  target: string,
+  candidates: Iterable<string>,
+  options?: { threshold?: number; limit?: number }
+): string[] {
+  const threshold = options?.threshold ?? 0.6;
+  const limit = options?.limit ?? 5;
+  const scored: Array<{ candidate: string; score: number }> = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (candidate === target || seen.has(candidate)) continue;
+    seen.add(candidate);
+
+    const score = calculateSimilarity(target.toLowerCase(), candidate.toLowerCase());
+    if (score >= threshold) {
+      scored.push({ candidate, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.candidate);
+}
@@ -0,0 +1,214 @@
+/**
+ * Unified Diff - Parse unified diffs (`diff -u`, `git diff`) and apply them to file contents
+ */
+
+export interface DiffHunk {
+  header: string; // "@@ -12,6 +12,8 @@", as written
+  oldStart: number; // 1-based; 0 for hunks that add to an empty file
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with " ", "-" or "+"
+}
+
+export interface FilePatch {
+  oldPath?: string; // Without git's a/ prefix; undefined for new files (`--- /dev/null`)
+  newPath?: string; // Undefined for deleted files (`+++ /dev/null`)
+  hunks: DiffHunk[];
+  binary?: boolean;
+}
+
+export interface PatchResult {
+  content: string;
+  addedLines: number[]; // 1-based lines of the patched content that the patch added or changed
+  failedHunks: Array<{ hunk: DiffHunk; reason: string }>;
+}
+
+/**
+ * Parse a unified diff into per-file patches. Text outside file headers and hunks
+ * (commit messages, `index` lines) is skipped.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  let current: FilePatch | undefined;
+  let gitHeader = false; // `current` was started by a `diff --git` line and has no ---/+++ yet
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("diff --git ")) {
+      // Mode changes and binary files have no ---/+++ lines; take the paths from here
+      const paths = line.match(/^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)?(.+?)"?$/);
+      current = { oldPath: paths?.[1], newPath: paths?.[2], hunks: [] };
+      patches.push(current);
+      gitHeader = true;
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath(lines[i + 1].slice(4));
+      // Without a git header, the ---/+++ lines start the file's patch
+      if (!current || !gitHeader) {
+        current = { hunks: [] };
+        patches.push(current);
+      }
+      current.oldPath = oldPath;
+      current.newPath = newPath;
+      gitHeader = false;
+      i++;
+      continue;
+    }
+
+    if (current && /^new file mode /.test(line)) {
+      current.oldPath = undefined;
+      continue;
+    }
+    if (current && /^deleted file mode /.test(line)) {
+      current.newPath = undefined;
+      continue;
+    }
+    if (current && /^Binary files .* differ$|^GIT binary patch$/.test(line)) {
+      current.binary = true;
+      continue;
+    }
+
+    const range = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (range && current) {
+      const hunk: DiffHunk = {
+        header: range[0],
+        oldStart: Number(range[1]),
+        oldLines: range[2] === undefined ? 1 : Number(range[2]),
+        newStart: Number(range[3]),
+        newLines: range[4] === undefined ? 1 : Number(range[4]),
+        lines: [],
+      };
+
+      // Counting the lines also ends the hunk, so a following "--- " header isn't read as a removal
+      let oldCount = 0;
+      let newCount = 0;
+      while (i + 1 < lines.length && (oldCount < hunk.oldLines || newCount < hunk.newLines)) {
+        const next = lines[i + 1];
+        if (next.startsWith("\\")) {
+          i++; // "\ No newline at end of file"
+          continue;
+        }
+
+        const marker = next === "" ? " " : next[0];
+        if (marker !== " " && marker !== "-" && marker !== "+") break;
+        hunk.lines.push(next === "" ? " " : next);
+        if (marker !== "+") oldCount++;
+        if (marker !== "-") newCount++;
+        i++;
+      }
+      if (lines[i + 1]?.startsWith("\\")) i++;
+
+      current.hunks.push(hunk);
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Apply a file's hunks to its content (undefined for a new file). Each hunk is placed
+ * where its context and removed lines match the content exactly, searching outward from
+ * the line it names; hunks that match nowhere are left out and reported.
+ */
+export function applyFilePatch(content: string | undefined, patch: FilePatch): PatchResult {
+  const source = content === undefined || content === "" ? [] : content.replace(/\r\n/g, "\n").split("\n");
+  const endsWithNewline = source.length > 0 && source[source.length - 1] === "";
+  if (endsWithNewline) source.pop();
+
+  const output: string[] = [];
+  const addedLines: number[] = [];
+  const failedHunks: PatchResult["failedHunks"] = [];
+  let cursor = 0; // Next source line to copy
+  let offset = 0; // How far applied hunks were from where they said they'd be
+
+  for (const hunk of patch.hunks) {
+    const expected = hunk.lines.filter((line) => line[0] !== "+").map((line) => line.slice(1));
+    // "-N,0" means "after old line N"; otherwise the hunk starts at old line N
+    const anchor = hunk.oldLines === 0 ? hunk.oldStart : Math.max(hunk.oldStart - 1, 0);
+    const position = findHunk(source, expected, anchor + offset, cursor);
+
+    if (position === undefined) {
+      failedHunks.push({
+        hunk,
+        reason:
+          content === undefined
+            ? "the file does not exist"
+            : `lines ${hunk.oldStart}-${hunk.oldStart + Math.max(hunk.oldLines - 1, 0)} don't match the patch's context`,
+      });
+      continue;
+    }
+
+    offset = position - anchor;
+    output.push(...source.slice(cursor, position));
+    cursor = position;
+
+    for (const line of hunk.lines) {
+      if (line[0] === "-") {
+        cursor++;
+      } else if (line[0] === "+") {
+        output.push(line.slice(1));
+        addedLines.push(output.length);
+      } else {
+        output.push(source[cursor++]);
+      }
+    }
+  }
+
+  output.push(...source.slice(cursor));
+  const patched = output.join("\n");
+  return {
+    content: output.length > 0 && (endsWithNewline || content === undefined) ? `${patched}\n` : patched,
+    addedLines,
+    failedHunks,
+  };
+}
+
+/**
+ * Lines of the new file that a patch adds, at the positions its hunks give. For diffs
+ * taken from files as they are (`git diff`), which need no applying.
+ */
+export function getAddedLines(patch: FilePatch): number[] {
+  const addedLines: number[] = [];
+  for (const hunk of patch.hunks) {
+    let line = hunk.newStart;
+    for (const text of hunk.lines) {
+      if (text[0] === "+") addedLines.push(line++);
+      else if (text[0] === " ") line++;
+    }
+  }
+  return addedLines;
+}
+
+/**
+ * Find where `expected` lines occur in `source`, closest to `start` and not before `min`
+ */
+function findHunk(source: string[], expected: string[], start: number, min: number): number | undefined {
+  const matches = (position: number) =>
+    position + expected.length <= source.length &&
+    expected.every((line, i) => source[position + i].replace(/\r$/, "") === line.replace(/\r$/, ""));
+
+  // Pure additions go where they say, as long as that's still in the file
+  if (expected.length === 0) {
+    return Math.min(Math.max(start, min), source.length);
+  }
+
+  for (let distance = 0; start - distance >= min || start + distance < source.length; distance++) {
+    if (start + distance >= min && matches(start + distance)) return start + distance;
+    if (distance > 0 && start - distance >= min && matches(start - distance)) return start - distance;
+  }
+  return undefined;
+}
+
+/**
+ * Path from a ---/+++ header: no timestamp or git a/ and b/ prefix, undefined for /dev/null
+ */
+function parseHeaderPath(header: string): string | undefined {
+  const path = header.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+  return path === "/dev/null" ? undefined : path.replace(/^[ab]\//, "");
+}
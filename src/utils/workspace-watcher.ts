@@ -0,0 +1,190 @@
+/**
+ * Workspace Watcher - Report changed source and config files so caches can be invalidated
+ */
+
+import { watch, readdirSync, statSync, FSWatcher } from "fs";
+import { basename, join, sep } from "path";
+import { FileDiscovery, isIgnoreFile } from "./file-discovery.js";
+import { ServerConfig } from "../types/index.js";
+
+export interface WorkspaceChange {
+  filePath: string;
+  kind: "source" | "config";
+  deleted: boolean;
+}
+
+/**
+ * Files that change how imports resolve rather than what a file declares
+ */
+const CONFIG_FILE_PATTERN = /^(?:package\.json|(?:ts|js)config(?:\..+)?\.json)$/;
+
+/**
+ * Whether a file is a package.json or tsconfig/jsconfig file
+ */
+export function isResolutionConfigFile(filePath: string): boolean {
+  return CONFIG_FILE_PATTERN.test(basename(filePath));
+}
+
+/**
+ * Whether a file changes what the workspace contains or how it resolves
+ */
+function isConfigFile(filePath: string): boolean {
+  return isResolutionConfigFile(filePath) || isIgnoreFile(filePath);
+}
+
+export class WorkspaceWatcher {
+  private config: ServerConfig;
+  private discovery: FileDiscovery;
+  private onChange: (change: WorkspaceChange) => void;
+  private watchers: Map<string, FSWatcher> = new Map();
+  private knownFiles: Set<string> = new Set();
+
+  constructor(
+    config: ServerConfig,
+    onChange: (change: WorkspaceChange) => void,
+    discovery: FileDiscovery = new FileDiscovery(config)
+  ) {
+    this.config = config;
+    this.discovery = discovery;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Start watching the workspace.
+   * Each directory is watched separately so excluded trees like node_modules cost nothing.
+   */
+  start(): void {
+    this.watchDirectory(this.config.workspacePath, false);
+  }
+
+  /**
+   * Stop all directory watchers
+   */
+  stop(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.knownFiles.clear();
+  }
+
+  /**
+   * Number of directories being watched
+   */
+  getWatchedDirectoryCount(): number {
+    return this.watchers.size;
+  }
+
+  /**
+   * Classify a file, or return null when changes to it don't matter
+   */
+  private classify(filePath: string): WorkspaceChange["kind"] | null {
+    if (this.discovery.isExcluded(filePath)) return null;
+    if (isConfigFile(filePath)) return "config";
+    return this.discovery.isIncluded(filePath) ? "source" : null;
+  }
+
+  /**
+   * Watch a directory and its subdirectories, reporting existing files when `announce` is set
+   * (a directory that appears while running may already contain files)
+   */
+  private watchDirectory(dir: string, announce: boolean): void {
+    if (this.watchers.has(dir) || (dir !== this.config.workspacePath && this.discovery.isExcluded(dir, true))) {
+      return;
+    }
+
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename) {
+          this.handleEvent(join(dir, filename.toString()));
+        }
+      });
+      // The directory was removed or became unreadable
+      watcher.on("error", () => this.unwatchDirectory(dir));
+      this.watchers.set(dir, watcher);
+    } catch (error) {
+      return;
+    }
+
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        this.watchDirectory(entryPath, announce);
+      } else if (entry.isFile()) {
+        this.trackFile(entryPath, announce);
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory tree and report its known files as deleted
+   */
+  private unwatchDirectory(dir: string): void {
+    const prefix = dir + sep;
+
+    for (const [watchedDir, watcher] of this.watchers) {
+      if (watchedDir === dir || watchedDir.startsWith(prefix)) {
+        watcher.close();
+        this.watchers.delete(watchedDir);
+      }
+    }
+
+    for (const filePath of this.knownFiles) {
+      if (filePath.startsWith(prefix)) {
+        this.knownFiles.delete(filePath);
+        this.emit(filePath, true);
+      }
+    }
+  }
+
+  /**
+   * Handle a raw fs.watch event; the event type is unreliable, so look at the disk
+   */
+  private handleEvent(fullPath: string): void {
+    let stats;
+    try {
+      stats = statSync(fullPath);
+    } catch (error) {
+      stats = null;
+    }
+
+    if (stats?.isDirectory()) {
+      this.watchDirectory(fullPath, true);
+    } else if (stats?.isFile()) {
+      this.trackFile(fullPath, true);
+    } else if (this.watchers.has(fullPath)) {
+      this.unwatchDirectory(fullPath);
+    } else if (this.knownFiles.delete(fullPath)) {
+      this.emit(fullPath, true);
+    }
+  }
+
+  /**
+   * Remember a relevant file and optionally report it as changed
+   */
+  private trackFile(filePath: string, announce: boolean): void {
+    if (!this.classify(filePath)) return;
+
+    this.knownFiles.add(filePath);
+    if (announce) {
+      this.emit(filePath, false);
+    }
+  }
+
+  /**
+   * Report a change to a relevant file
+   */
+  private emit(filePath: string, deleted: boolean): void {
+    const kind = this.classify(filePath);
+    if (kind) {
+      this.onChange({ filePath, kind, deleted });
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { join } from "path";
+import { FileDiscovery } from "../src/utils/file-discovery.js";
+import { ServerConfig } from "../src/types/index.js";
+import { createWorkspace, removeWorkspace } from "./helpers/workspace.js";
+
+describe("FileDiscovery", () => {
+  let workspacePath: string;
+
+  const discovery = (config: Partial<ServerConfig> = {}) =>
+    new FileDiscovery({ workspacePath, ...config } as ServerConfig);
+
+  beforeEach(() => {
+    workspacePath = createWorkspace({
+      "src/app.ts": "",
+      "src/.eslintrc.js": "",
+      "src/api.generated.ts": "",
+      "node_modules/pkg/index.js": "",
+      ".next/server/page.js": "",
+      ".turbo/cache.js": "",
+    });
+  });
+
+  afterEach(() => {
+    removeWorkspace(workspacePath);
+  });
+
+  it("skips node_modules and hidden paths when exclude replaces the defaults", async () => {
+    const files = await discovery({ exclude: ["**/*.generated.ts"] }).findSourceFiles();
+
+    expect(files).toEqual([join(workspacePath, "src/app.ts")]);
+  });
+
+  it("treats files in node_modules and hidden directories as excluded", () => {
+    const fileDiscovery = discovery({ exclude: [] });
+
+    expect(fileDiscovery.isIncluded(join(workspacePath, "node_modules/pkg/index.js"))).toBe(false);
+    expect(fileDiscovery.isIncluded(join(workspacePath, ".next/server/page.js"))).toBe(false);
+    expect(fileDiscovery.isIncluded(join(workspacePath, "src/.eslintrc.js"))).toBe(false);
+    expect(fileDiscovery.isExcluded(join(workspacePath, ".turbo"), true)).toBe(true);
+    expect(fileDiscovery.isIncluded(join(workspacePath, "src/app.ts"))).toBe(true);
+  });
+
+  it("doesn't exclude ignore files at the workspace root", () => {
+    expect(discovery().isExcluded(join(workspacePath, ".gitignore"))).toBe(false);
+  });
+});
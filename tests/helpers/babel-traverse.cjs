@@ -0,0 +1,4 @@
+// Under Node's ESM loader, a default import of @babel/traverse is its whole CommonJS
+// exports object, so the sources call `traverse.default(...)`. Give the CommonJS test
+// build the same shape.
+module.exports = { __esModule: true, default: require("@babel/traverse/lib/index.js") };
@@ -0,0 +1,22 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+/**
+ * Write a fixture workspace to a temporary directory, files keyed by relative path
+ */
+export function createWorkspace(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), "epistemic-check-"));
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, file)), { recursive: true });
+    writeFileSync(join(root, file), content);
+  }
+  return root;
+}
+
+/**
+ * Remove a fixture workspace
+ */
+export function removeWorkspace(root: string): void {
+  rmSync(root, { recursive: true, force: true });
+}
@@ -0,0 +1,371 @@
+import { join } from "path";
+import { ImportTracker } from "../src/analyzers/import-tracker.js";
+import { createWorkspace, removeWorkspace } from "./helpers/workspace.js";
+
+describe("ImportTracker.resolveImportPath", () => {
+  describe("relative imports", () => {
+    let root: string;
+    let tracker: ImportTracker;
+    const from = (file: string) => join(root, file);
+
+    beforeAll(() => {
+      root = createWorkspace({
+        "package.json": JSON.stringify({ name: "app", type: "module" }),
+        "tsconfig.json": JSON.stringify({ compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext" } }),
+        "src/app.ts": "",
+        "src/util.ts": "export const util = 1;\n",
+        "src/view.tsx": "export const View = () => null;\n",
+        "src/esm.mts": "export const esm = 1;\n",
+        "src/legacy.cts": "export const legacy = 1;\n",
+        "src/types.d.ts": "export type Id = string;\n",
+        "src/plain.js": "export const plain = 1;\n",
+        "src/lib/index.ts": "export const lib = 1;\n",
+      });
+      tracker = new ImportTracker(root);
+    });
+
+    afterAll(() => {
+      removeWorkspace(root);
+    });
+
+    it.each([
+      ["./util.js", "src/util.ts"],
+      ["./view.js", "src/view.tsx"],
+      ["./esm.mjs", "src/esm.mts"],
+      ["./legacy.cjs", "src/legacy.cts"],
+      ["./types.js", "src/types.d.ts"],
+      ["./plain.js", "src/plain.js"],
+      ["./lib/index.js", "src/lib/index.ts"],
+    ])("resolves %s to the source file %s", (specifier, file) => {
+      expect(tracker.resolveImportPath(specifier, from("src/app.ts"))).toEqual({
+        resolvedPath: join(root, file),
+        exists: true,
+      });
+    });
+
+    it("reads the resolution mode from tsconfig.json", () => {
+      expect(tracker.getModuleResolution(from("src/app.ts"))).toBe("nodenext");
+    });
+
+    it("requires explicit extensions in ESM files under nodenext", () => {
+      const result = tracker.resolveImportPath("./util", from("src/app.ts"));
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe("Relative import './util' needs an explicit file extension under 'nodenext' resolution");
+      expect(result.alternatives).toEqual(["./util.js"]);
+    });
+
+    it("suggests the output extension of .mts sources", () => {
+      expect(tracker.resolveImportPath("./esm", from("src/app.ts")).alternatives).toEqual(["./esm.mjs"]);
+    });
+
+    it("rejects directory imports in ESM files under nodenext", () => {
+      const result = tracker.resolveImportPath("./lib", from("src/app.ts"));
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe("Directory import './lib' is not supported in ECMAScript modules under 'nodenext' resolution");
+      expect(result.alternatives).toEqual(["./lib/index.js"]);
+    });
+
+    it("allows extensionless and directory imports from CommonJS files", () => {
+      expect(tracker.resolveImportPath("./util", from("src/legacy.cts")).resolvedPath).toBe(join(root, "src/util.ts"));
+      expect(tracker.resolveImportPath("./lib", from("src/legacy.cts")).resolvedPath).toBe(join(root, "src/lib/index.ts"));
+    });
+
+    it("allows extensionless and directory imports under node10", () => {
+      const node10 = new ImportTracker(root, { moduleResolution: "node10" });
+
+      expect(node10.resolveImportPath("./util", from("src/app.ts")).resolvedPath).toBe(join(root, "src/util.ts"));
+      expect(node10.resolveImportPath("./lib", from("src/app.ts")).resolvedPath).toBe(join(root, "src/lib/index.ts"));
+    });
+
+    it("reports files that don't exist", () => {
+      const result = tracker.resolveImportPath("./missing.js", from("src/app.ts"));
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe(`Import path './missing.js' could not be resolved from ${from("src/app.ts")}`);
+    });
+  });
+
+  describe("tsconfig paths and baseUrl", () => {
+    let root: string;
+    let tracker: ImportTracker;
+    const fromApp = () => join(root, "src/app.ts");
+    const aliased = (specifier: string) => tracker.resolveImportPath(specifier, fromApp(), { resolveAliases: true });
+
+    beforeAll(() => {
+      root = createWorkspace({
+        "package.json": JSON.stringify({ name: "app", dependencies: { lodash: "^4.0.0" } }),
+        // baseUrl is relative to the config that declares it, and inherited with the paths
+        "configs/tsconfig.base.json": JSON.stringify({
+          compilerOptions: {
+            baseUrl: "..",
+            paths: {
+              "@/*": ["src/*"],
+              "@/lib/*": ["src/library/*"],
+              "@shared": ["src/shared/index.ts"],
+              "@missing/*": ["src/nowhere/*"],
+              "lodash": ["typings/lodash"],
+            },
+          },
+        }),
+        "tsconfig.json": '{\n  // Comments and trailing commas are allowed\n  "extends": "./configs/tsconfig.base.json",\n}\n',
+        "src/app.ts": "",
+        "src/lib/format.ts": "",
+        "src/library/format.ts": "",
+        "src/shared/index.ts": "",
+        "src/utils/date.ts": "",
+        "node_modules/lodash/package.json": JSON.stringify({ name: "lodash" }),
+      });
+      tracker = new ImportTracker(root);
+    });
+
+    afterAll(() => {
+      removeWorkspace(root);
+    });
+
+    it("maps wildcard patterns against the inherited baseUrl", () => {
+      expect(aliased("@/utils/date")).toEqual({ resolvedPath: join(root, "src/utils/date.ts"), exists: true });
+    });
+
+    it("picks the pattern with the longest prefix", () => {
+      expect(aliased("@/lib/format").resolvedPath).toBe(join(root, "src/library/format.ts"));
+    });
+
+    it("maps exact patterns", () => {
+      expect(aliased("@shared").resolvedPath).toBe(join(root, "src/shared/index.ts"));
+    });
+
+    it("resolves bare specifiers against baseUrl", () => {
+      expect(aliased("src/utils/date").resolvedPath).toBe(join(root, "src/utils/date.ts"));
+    });
+
+    it("falls back to node_modules when a matched pattern has no file", () => {
+      expect(aliased("lodash")).toEqual({ resolvedPath: join(root, "node_modules/lodash"), exists: true });
+    });
+
+    it("reports patterns that match but map to no file", () => {
+      const result = aliased("@missing/thing");
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe(
+        "Import path '@missing/thing' matches tsconfig paths pattern '@missing/*' but no file exists at src/nowhere/thing"
+      );
+    });
+
+    it("leaves aliases unverified when resolveAliases is off", () => {
+      const result = tracker.resolveImportPath("@/utils/date", fromApp());
+
+      expect(result.exists).toBe(true);
+      expect(result.warning).toBe(
+        "Import path '@/utils/date' matches tsconfig paths pattern '@/*' and was not verified; set resolveAliases to check the file it maps to"
+      );
+    });
+  });
+
+  describe("inherited paths", () => {
+    let root: string;
+
+    afterEach(() => {
+      removeWorkspace(root);
+    });
+
+    it("resolves inherited paths against a baseUrl the child config sets", () => {
+      root = createWorkspace({
+        "configs/base.json": JSON.stringify({ compilerOptions: { paths: { "@app/*": ["./app/*"] } } }),
+        "tsconfig.json": JSON.stringify({ extends: "./configs/base.json", compilerOptions: { baseUrl: "./src" } }),
+        "src/app/main.ts": "",
+      });
+      const result = new ImportTracker(root).resolveImportPath("@app/main", join(root, "index.ts"), { resolveAliases: true });
+
+      expect(result.resolvedPath).toBe(join(root, "src/app/main.ts"));
+    });
+
+    it("resolves paths against the config that declares them when there is no baseUrl", () => {
+      root = createWorkspace({
+        "configs/base.json": JSON.stringify({ compilerOptions: { paths: { "@app/*": ["./app/*"] } } }),
+        "tsconfig.json": JSON.stringify({ extends: "./configs/base.json" }),
+        "configs/app/main.ts": "",
+      });
+      const result = new ImportTracker(root).resolveImportPath("@app/main", join(root, "index.ts"), { resolveAliases: true });
+
+      expect(result.resolvedPath).toBe(join(root, "configs/app/main.ts"));
+    });
+  });
+
+  describe("packages and subpath imports", () => {
+    let root: string;
+    let tracker: ImportTracker;
+    const resolveFromApp = (specifier: string, typeOnly?: boolean) =>
+      tracker.resolveImportPath(specifier, join(root, "src/app.ts"), { typeOnly });
+
+    beforeAll(() => {
+      root = createWorkspace({
+        "package.json": JSON.stringify({
+          name: "app",
+          dependencies: { "react": "^18.0.0", "left-pad": "^1.0.0", "lodash": "^4.0.0" },
+          devDependencies: { "@types/only-types": "^1.0.0" },
+          imports: {
+            "#utils/*": "./src/utils/*.js",
+            "#config": { types: "./src/config.d.ts", default: "./dist/config.js" },
+            "#build": "./dist/build.js",
+            "#dep": "lodash",
+          },
+        }),
+        "src/app.ts": "",
+        "src/utils/date.ts": "",
+        "src/config.d.ts": "",
+        "node_modules/react/package.json": JSON.stringify({ name: "react" }),
+        "node_modules/express/package.json": JSON.stringify({ name: "express" }),
+        "node_modules/lodash/package.json": JSON.stringify({ name: "lodash" }),
+        "node_modules/@types/only-types/package.json": JSON.stringify({ name: "@types/only-types" }),
+      });
+      tracker = new ImportTracker(root);
+    });
+
+    afterAll(() => {
+      removeWorkspace(root);
+    });
+
+    it("accepts Node.js built-in modules", () => {
+      expect(resolveFromApp("fs")).toEqual({ resolvedPath: "fs", exists: true });
+      expect(resolveFromApp("node:path")).toEqual({ resolvedPath: "node:path", exists: true });
+    });
+
+    it("resolves declared and installed packages and their subpaths", () => {
+      expect(resolveFromApp("react")).toEqual({ resolvedPath: join(root, "node_modules/react"), exists: true });
+      expect(resolveFromApp("react/jsx-runtime").exists).toBe(true);
+    });
+
+    it("reports packages that are neither declared nor installed, with the closest real one", () => {
+      const result = resolveFromApp("reakt");
+
+      expect(result.exists).toBe(false);
+      expect(result.alternatives).toContain("react");
+      expect(result.error).toBe(
+        `Package 'reakt' is not declared in ${join(root, "package.json")} and is not installed (did you mean 'react'?)`
+      );
+    });
+
+    it("reports installed packages that aren't declared", () => {
+      const result = resolveFromApp("express");
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe(`Package 'express' is installed but not declared in ${join(root, "package.json")}`);
+    });
+
+    it("warns about declared packages that aren't installed", () => {
+      const result = resolveFromApp("left-pad");
+
+      expect(result.exists).toBe(true);
+      expect(result.warning).toBe(
+        `Package 'left-pad' is declared in ${join(root, "package.json")} but not installed in node_modules`
+      );
+    });
+
+    it("accepts type-only imports of packages declared through @types", () => {
+      expect(resolveFromApp("only-types", true).exists).toBe(true);
+      expect(resolveFromApp("only-types").exists).toBe(false);
+    });
+
+    it("resolves # imports through wildcard mappings of the imports field", () => {
+      expect(resolveFromApp("#utils/date")).toEqual({ resolvedPath: join(root, "src/utils/date.ts"), exists: true });
+    });
+
+    it("picks the first matching condition of a conditional mapping", () => {
+      expect(resolveFromApp("#config").resolvedPath).toBe(join(root, "src/config.d.ts"));
+    });
+
+    it("resolves # imports mapped to packages as those packages", () => {
+      expect(resolveFromApp("#dep")).toEqual({ resolvedPath: join(root, "node_modules/lodash"), exists: true });
+    });
+
+    it("warns about mapped targets that don't exist, as they may be build output", () => {
+      const result = resolveFromApp("#build");
+
+      expect(result.exists).toBe(true);
+      expect(result.warning).toBe("Subpath import '#build' maps to dist/build.js, which does not exist");
+    });
+
+    it("reports # imports the imports field doesn't map", () => {
+      const result = resolveFromApp("#nope");
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe(`Subpath import '#nope' is not mapped by the "imports" field of ${join(root, "package.json")}`);
+    });
+  });
+});
+
+describe("ImportTracker exports", () => {
+  let root: string;
+  let tracker: ImportTracker;
+  const file = (path: string) => join(root, path);
+
+  beforeAll(() => {
+    root = createWorkspace({
+      "package.json": JSON.stringify({ name: "app", dependencies: { react: "^18.0.0" } }),
+      "src/index.ts": [
+        'export * from "./models/index.js";',
+        'export { helper as renamed } from "./utils.js";',
+        'export { default as Widget } from "./widget.js";',
+      ].join("\n"),
+      "src/models/index.ts": 'export * from "./user.js";\nexport type { Role } from "./role.js";\n',
+      "src/models/user.ts": "export class User {}\nexport default function createUser() {}\n",
+      "src/models/role.ts": 'export type Role = "admin" | "member";\n',
+      "src/utils.ts": "export function helper() {}\n",
+      "src/widget.ts": "export default class Widget {}\n",
+      "src/a.ts": 'export * from "./b.js";\nexport const a = 1;\n',
+      "src/b.ts": 'export * from "./a.js";\nexport const b = 2;\n',
+      "src/hooks.ts": 'export * from "react";\n',
+      "node_modules/react/package.json": JSON.stringify({ name: "react" }),
+      "node_modules/react/index.js": "",
+    });
+    tracker = new ImportTracker(root);
+  });
+
+  afterAll(() => {
+    removeWorkspace(root);
+  });
+
+  it("follows export * chains through nested barrels to the declaring file", () => {
+    expect(tracker.resolveExport(file("src/index.ts"), "User")).toMatchObject({
+      found: true,
+      filePath: file("src/models/user.ts"),
+    });
+    expect(tracker.resolveExport(file("src/index.ts"), "Role")).toMatchObject({
+      found: true,
+      filePath: file("src/models/role.ts"),
+    });
+  });
+
+  it("follows renamed and default re-exports under their exported names", () => {
+    expect(tracker.resolveExport(file("src/index.ts"), "renamed")).toMatchObject({
+      found: true,
+      filePath: file("src/utils.ts"),
+    });
+    expect(tracker.resolveExport(file("src/index.ts"), "Widget")).toMatchObject({
+      found: true,
+      filePath: file("src/widget.ts"),
+    });
+    expect(tracker.exportExists(file("src/index.ts"), "helper")).toBe(false);
+  });
+
+  it("doesn't re-export default exports through export *", () => {
+    expect(tracker.exportExists(file("src/models/user.ts"), "default")).toBe(true);
+    expect(tracker.exportExists(file("src/index.ts"), "default")).toBe(false);
+  });
+
+  it("lists every name a barrel exports", () => {
+    expect(tracker.getAvailableExports(file("src/index.ts")).sort()).toEqual(["Role", "User", "Widget", "renamed"]);
+  });
+
+  it("stops at re-export cycles", () => {
+    expect(tracker.getAvailableExports(file("src/a.ts")).sort()).toEqual(["a", "b"]);
+    expect(tracker.resolveExport(file("src/a.ts"), "b")).toMatchObject({ found: true, filePath: file("src/b.ts") });
+    expect(tracker.resolveExport(file("src/a.ts"), "c")).toEqual({ found: false, unverifiable: false });
+  });
+
+  it("marks names that may come from a re-exported package as unverifiable", () => {
+    expect(tracker.resolveExport(file("src/hooks.ts"), "useState")).toEqual({ found: false, unverifiable: true });
+  });
+});
@@ -0,0 +1,33 @@
+import { join } from "path";
+import { PackageExportsIndex } from "../src/analyzers/package-exports.js";
+import { createWorkspace, removeWorkspace } from "./helpers/workspace.js";
+
+describe("PackageExportsIndex", () => {
+  let workspacePath: string;
+
+  beforeEach(() => {
+    workspacePath = createWorkspace({
+      "node_modules/cyclic/package.json": JSON.stringify({ name: "cyclic", types: "a.d.ts" }),
+      "node_modules/cyclic/a.d.ts": 'export * from "./b";\nexport declare const fromA: number;\n',
+      "node_modules/cyclic/b.d.ts": 'export * from "./a";\nexport declare const fromB: number;\n',
+    });
+  });
+
+  afterEach(() => {
+    removeWorkspace(workspacePath);
+  });
+
+  it("collects every name of a re-export cycle from each file in it", () => {
+    const index = new PackageExportsIndex();
+
+    const root = index.getPackageExports("cyclic", workspacePath)!;
+    expect([...root.exports].sort()).toEqual(["fromA", "fromB"]);
+    expect(root.complete).toBe(true);
+
+    // b.d.ts was first reached through a.d.ts, before a.d.ts had its own names
+    const subpath = index.getPackageExports("cyclic/b", workspacePath)!;
+    expect(subpath.typesPath).toBe(join(workspacePath, "node_modules/cyclic/b.d.ts"));
+    expect([...subpath.exports].sort()).toEqual(["fromA", "fromB"]);
+    expect(subpath.complete).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+import { applyFilePatch, getAddedLines, parseUnifiedDiff } from "../src/utils/unified-diff.js";
+
+describe("parseUnifiedDiff", () => {
+  it("parses git diffs with a/ and b/ prefixes", () => {
+    const [patch] = parseUnifiedDiff(
+      [
+        "diff --git a/src/app.ts b/src/app.ts",
+        "index 1234567..89abcde 100644",
+        "--- a/src/app.ts",
+        "+++ b/src/app.ts",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "+B",
+      ].join("\n")
+    );
+
+    expect(patch.oldPath).toBe("src/app.ts");
+    expect(patch.newPath).toBe("src/app.ts");
+    expect(patch.hunks).toHaveLength(1);
+    expect(patch.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2 });
+    expect(patch.hunks[0].lines).toEqual([" a", "-b", "+B"]);
+  });
+
+  it("reads omitted range counts as 1 and zero-line ranges from -U0 diffs", () => {
+    const [patch] = parseUnifiedDiff(["--- a.ts", "+++ a.ts", "@@ -2,0 +3 @@", "+X"].join("\n"));
+
+    expect(patch.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 0, newStart: 3, newLines: 1 });
+    expect(patch.hunks[0].lines).toEqual(["+X"]);
+  });
+
+  it("marks new and deleted files", () => {
+    const patches = parseUnifiedDiff(
+      [
+        "diff --git a/new.ts b/new.ts",
+        "new file mode 100644",
+        "--- /dev/null",
+        "+++ b/new.ts",
+        "@@ -0,0 +1 @@",
+        "+export const x = 1;",
+        "diff --git a/old.ts b/old.ts",
+        "deleted file mode 100644",
+        "--- a/old.ts",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-export const y = 2;",
+      ].join("\n")
+    );
+
+    expect(patches).toHaveLength(2);
+    expect(patches[0].oldPath).toBeUndefined();
+    expect(patches[0].newPath).toBe("new.ts");
+    expect(patches[1].oldPath).toBe("old.ts");
+    expect(patches[1].newPath).toBeUndefined();
+  });
+
+  it("takes renamed paths from the git header when there are no hunks", () => {
+    const [patch] = parseUnifiedDiff(
+      [
+        "diff --git a/src/old-name.ts b/src/new-name.ts",
+        "similarity index 100%",
+        "rename from src/old-name.ts",
+        "rename to src/new-name.ts",
+      ].join("\n")
+    );
+
+    expect(patch.oldPath).toBe("src/old-name.ts");
+    expect(patch.newPath).toBe("src/new-name.ts");
+    expect(patch.hunks).toHaveLength(0);
+  });
+
+  it("doesn't read a following file header as removed lines", () => {
+    const patches = parseUnifiedDiff(
+      ["--- a.ts", "+++ a.ts", "@@ -1 +1 @@", "-a", "+A", "--- b.ts", "+++ b.ts", "@@ -1 +1 @@", "-b", "+B"].join("\n")
+    );
+
+    expect(patches.map((patch) => patch.newPath)).toEqual(["a.ts", "b.ts"]);
+    expect(patches[0].hunks[0].lines).toEqual(["-a", "+A"]);
+  });
+
+  it("flags binary files", () => {
+    const [patch] = parseUnifiedDiff(
+      ["diff --git a/logo.png b/logo.png", "Binary files a/logo.png and b/logo.png differ"].join("\n")
+    );
+
+    expect(patch.binary).toBe(true);
+  });
+});
+
+describe("applyFilePatch", () => {
+  const apply = (content: string | undefined, diff: string) => applyFilePatch(content, parseUnifiedDiff(diff)[0]);
+
+  it("replaces lines and reports the added ones", () => {
+    const result = apply("a\nb\nc\n", ["--- f", "+++ f", "@@ -1,3 +1,3 @@", " a", "-b", "+B", " c"].join("\n"));
+
+    expect(result.content).toBe("a\nB\nc\n");
+    expect(result.addedLines).toEqual([2]);
+    expect(result.failedHunks).toEqual([]);
+  });
+
+  it("inserts -U0 additions after the old line they name", () => {
+    const result = apply("a\nb\nc\nd\n", ["--- f", "+++ f", "@@ -2,0 +3 @@", "+X"].join("\n"));
+
+    expect(result.content).toBe("a\nb\nX\nc\nd\n");
+    expect(result.addedLines).toEqual([3]);
+  });
+
+  it("appends additions at the end of the file", () => {
+    const result = apply("a\nb\nc\nd\n", ["--- f", "+++ f", "@@ -4,0 +5 @@", "+END"].join("\n"));
+
+    expect(result.content).toBe("a\nb\nc\nd\nEND\n");
+    expect(result.addedLines).toEqual([5]);
+  });
+
+  it("inserts additions before the first line", () => {
+    const result = apply("a\nb\n", ["--- f", "+++ f", "@@ -0,0 +1 @@", "+START"].join("\n"));
+
+    expect(result.content).toBe("START\na\nb\n");
+    expect(result.addedLines).toEqual([1]);
+  });
+
+  it("creates new files", () => {
+    const result = apply(undefined, ["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,2 @@", "+one", "+two"].join("\n"));
+
+    expect(result.content).toBe("one\ntwo\n");
+    expect(result.addedLines).toEqual([1, 2]);
+  });
+
+  it("empties deleted files", () => {
+    const result = apply("one\ntwo\n", ["--- a/old.ts", "+++ /dev/null", "@@ -1,2 +0,0 @@", "-one", "-two"].join("\n"));
+
+    expect(result.content).toBe("");
+    expect(result.addedLines).toEqual([]);
+    expect(result.failedHunks).toEqual([]);
+  });
+
+  it("finds hunks whose context moved and carries the offset to later hunks", () => {
+    const content = "x\nx\na\nb\nc\nd\ne\n";
+    const result = apply(
+      content,
+      ["--- f", "+++ f", "@@ -1,2 +1,2 @@", " a", "-b", "+B", "@@ -3,0 +4 @@", "+after-c"].join("\n")
+    );
+
+    expect(result.content).toBe("x\nx\na\nB\nc\nafter-c\nd\ne\n");
+    expect(result.addedLines).toEqual([4, 6]);
+    expect(result.failedHunks).toEqual([]);
+  });
+
+  it("leaves out and reports hunks whose context matches nowhere", () => {
+    const result = apply(
+      "a\nb\nc\n",
+      ["--- f", "+++ f", "@@ -1,2 +1,2 @@", " a", "-zzz", "+Z", "@@ -3 +3 @@", "-c", "+C"].join("\n")
+    );
+
+    expect(result.content).toBe("a\nb\nC\n");
+    expect(result.failedHunks).toHaveLength(1);
+    expect(result.failedHunks[0].reason).toBe("lines 1-2 don't match the patch's context");
+    expect(result.addedLines).toEqual([3]);
+  });
+
+  it("reports hunks against a file that doesn't exist", () => {
+    const result = apply(undefined, ["--- a/f", "+++ b/f", "@@ -1 +1 @@", "-a", "+A"].join("\n"));
+
+    expect(result.failedHunks[0].reason).toBe("the file does not exist");
+  });
+});
+
+describe("getAddedLines", () => {
+  it("lists added lines at the positions the hunks give", () => {
+    const [patch] = parseUnifiedDiff(
+      ["--- f", "+++ f", "@@ -1,2 +1,3 @@", " a", "+b", " c", "@@ -10 +11,2 @@", "-j", "+J", "+K"].join("\n")
+    );
+
+    expect(getAddedLines(patch)).toEqual([2, 11, 12]);
+  });
+});